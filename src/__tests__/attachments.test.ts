@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'bun:test';
+import { openAttachment } from '../attachments';
+import { MefsAttachmentError } from '../errors';
+
+const limits = { maxBytes: 1024, timeoutMs: 5000, localDir: '/nonexistent' };
+
+describe('openAttachment', () => {
+  it('should refuse downloads from hosts that are not public', async () => {
+    for (const url of [
+      'http://127.0.0.1/file',
+      'http://localhost/file',
+      'http://[::1]/file',
+      'http://[::ffff:7f00:1]/file',
+      'http://169.254.169.254/latest/meta-data',
+      'https://10.1.2.3/file',
+    ]) {
+      await expect(openAttachment(url, limits)).rejects.toThrow('not a public address');
+    }
+  });
+
+  it('should refuse other URL schemes', async () => {
+    await expect(openAttachment('ftp://example.com/file', limits)).rejects.toBeInstanceOf(MefsAttachmentError);
+  });
+
+  it('should decode data URIs within the size limit', async () => {
+    const source = await openAttachment('data:text/plain;name=hello.txt;base64,aGVsbG8=', limits);
+    expect(source).toMatchObject({ type: 'buffer', filename: 'hello.txt', contentType: 'text/plain' });
+    expect(source.type === 'buffer' && source.content.toString()).toBe('hello');
+    await expect(openAttachment(`data:,${'x'.repeat(2000)}`, limits)).rejects.toThrow('limit');
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'bun:test';
+import { CID } from 'multiformats/cid';
+import { CidVerifier, DEFAULT_CHUNK_SIZE, computeCid, isSameCid, verifyContent } from '../cid';
+
+const hello = Buffer.from('hello world');
+const HELLO_RAW = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+const HELLO_V0 = 'Qmf412jQZiuVUtdgnB36FXFX7xg5V6KEbSJ4dpQuhkLyfD';
+
+describe('computeCid', () => {
+  it('should compute the raw CIDv1 of a single chunk', () => {
+    expect(computeCid(hello)).toBe(HELLO_RAW);
+  });
+
+  it('should compute the CIDv0 of ipfs add', () => {
+    expect(computeCid(hello, { version: 0, rawLeaves: false })).toBe(HELLO_V0);
+  });
+
+  it('should build a DAG for content of several chunks', () => {
+    const content = Buffer.alloc(DEFAULT_CHUNK_SIZE * 2 + 1, 7);
+    const cid = computeCid(content);
+    expect(cid.startsWith('bafybei')).toBe(true);
+    expect(computeCid(content, { chunkSize: DEFAULT_CHUNK_SIZE / 2 })).not.toBe(cid);
+  });
+});
+
+describe('isSameCid', () => {
+  it('should match a CIDv0 with its CIDv1 form', () => {
+    const v1 = CID.parse(HELLO_V0).toV1().toString();
+    expect(v1).not.toBe(HELLO_V0);
+    expect(isSameCid(HELLO_V0, v1)).toBe(true);
+    expect(isSameCid(HELLO_RAW, HELLO_RAW)).toBe(true);
+  });
+
+  it('should not match different or unparseable CIDs', () => {
+    expect(isSameCid(HELLO_RAW, HELLO_V0)).toBe(false);
+    expect(isSameCid('not a cid', HELLO_RAW)).toBe(false);
+  });
+});
+
+describe('verifyContent', () => {
+  it('should verify content against its CID', () => {
+    expect(verifyContent(HELLO_RAW, hello)).toBe('verified');
+    expect(verifyContent(HELLO_V0, hello)).toBe('verified');
+  });
+
+  it('should report a mismatch', () => {
+    expect(verifyContent(HELLO_RAW, Buffer.from('hello there'))).toBe('mismatch');
+  });
+
+  it('should verify content stored with another chunk size, given its layout', () => {
+    const layout = { version: 1 as const, rawLeaves: true, chunkSize: 1024 * 1024 };
+    const content = Buffer.alloc(3 * 1024 * 1024, 5);
+    const cid = computeCid(content, layout);
+    expect(verifyContent(cid, content)).toBe('unverifiable');
+    expect(verifyContent(cid, content, layout)).toBe('verified');
+    expect(verifyContent(cid, Buffer.alloc(content.length, 6), layout)).toBe('unverifiable');
+  });
+
+  it('should verify content given in pieces', () => {
+    const content = Buffer.alloc(DEFAULT_CHUNK_SIZE + 100, 3);
+    const verifier = new CidVerifier(computeCid(content, { version: 0, rawLeaves: false }));
+    verifier.update(content.subarray(0, 1000));
+    verifier.update(content.subarray(1000));
+    expect(verifier.result()).toBe('verified');
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'bun:test';
+import { randomBytes } from 'crypto';
+import { Readable } from 'stream';
+import {
+  DEFAULT_SEGMENT_SIZE,
+  ENCRYPTION_HEADER_LENGTH,
+  createDecryptStream,
+  createEncryptStream,
+  createEncryptionHeader,
+  decryptContent,
+  decryptString,
+  deriveKey,
+  encryptContent,
+  encryptString,
+  getEncryptedSize,
+  parseEncryptionHeader,
+} from '../crypto';
+
+const key = deriveKey('secret', 'test');
+
+/**
+ * Pipe content through a transform, in chunks of the given size
+ */
+async function pipeThrough(stream: NodeJS.ReadWriteStream, content: Buffer, chunkSize: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for (let offset = 0; offset < content.length; offset += chunkSize) {
+    chunks.push(content.subarray(offset, offset + chunkSize));
+  }
+  const output: Buffer[] = [];
+  for await (const chunk of Readable.from(chunks).pipe(stream)) {
+    output.push(chunk as Buffer);
+  }
+  return Buffer.concat(output);
+}
+
+describe('String encryption', () => {
+  it('should round-trip a string', () => {
+    const payload = encryptString('hello', key);
+    expect(decryptString(payload, key)).toBe('hello');
+  });
+
+  it('should reject a wrong key', () => {
+    const payload = encryptString('hello', key);
+    expect(() => decryptString(payload, deriveKey('other', 'test'))).toThrow();
+  });
+});
+
+describe('Content encryption', () => {
+  for (const size of [0, 1, DEFAULT_SEGMENT_SIZE - 1, DEFAULT_SEGMENT_SIZE, 3 * DEFAULT_SEGMENT_SIZE + 5]) {
+    it(`should round-trip ${size} bytes`, () => {
+      const plaintext = randomBytes(size);
+      const encrypted = encryptContent(key, plaintext);
+      expect(encrypted.length).toBe(getEncryptedSize(size));
+      expect(decryptContent(key, encrypted).equals(plaintext)).toBe(true);
+    });
+  }
+
+  it('should reject tampered content', () => {
+    const encrypted = encryptContent(key, randomBytes(1000));
+    encrypted[ENCRYPTION_HEADER_LENGTH + 10] ^= 1;
+    expect(() => decryptContent(key, encrypted)).toThrow();
+  });
+
+  it('should reject truncated content', () => {
+    const encrypted = encryptContent(key, randomBytes(2 * DEFAULT_SEGMENT_SIZE + 10));
+    const stride = DEFAULT_SEGMENT_SIZE + 16;
+    expect(() => decryptContent(key, encrypted.subarray(0, ENCRYPTION_HEADER_LENGTH + 2 * stride))).toThrow();
+  });
+
+  it('should parse the header it wrote', () => {
+    const header = createEncryptionHeader(key);
+    const parsed = parseEncryptionHeader(encryptContent(key, Buffer.from('x'), header));
+    expect(parsed?.segmentSize).toBe(DEFAULT_SEGMENT_SIZE);
+    expect(parsed?.noncePrefix.equals(header.noncePrefix)).toBe(true);
+    expect(parseEncryptionHeader(Buffer.from('not encrypted at all, but long enough'))).toBeNull();
+  });
+
+  it('should use a random nonce prefix for every header', () => {
+    expect(createEncryptionHeader(key).noncePrefix.equals(createEncryptionHeader(key).noncePrefix)).toBe(false);
+  });
+});
+
+describe('Stream encryption', () => {
+  for (const chunkSize of [1000, DEFAULT_SEGMENT_SIZE, 200000]) {
+    it(`should round-trip in chunks of ${chunkSize} bytes`, async () => {
+      const plaintext = randomBytes(3 * DEFAULT_SEGMENT_SIZE + 123);
+      const encrypted = await pipeThrough(createEncryptStream(key), plaintext, chunkSize);
+      expect(decryptContent(key, encrypted).equals(plaintext)).toBe(true);
+      const decrypted = await pipeThrough(createDecryptStream(() => key), encrypted, chunkSize);
+      expect(decrypted.equals(plaintext)).toBe(true);
+    });
+  }
+
+  // Regression: the first chunk of unencrypted content used to be emitted twice
+  for (const [size, chunkSize] of [[5, 5], [100, 10], [100000, 4096], [100000, 100000]]) {
+    it(`should pass ${size} unencrypted bytes through unchanged in chunks of ${chunkSize}`, async () => {
+      const plaintext = randomBytes(size);
+      const output = await pipeThrough(createDecryptStream(() => key), plaintext, chunkSize);
+      expect(output.length).toBe(size);
+      expect(output.equals(plaintext)).toBe(true);
+    });
+  }
+
+  it('should fail on a wrong key', async () => {
+    const encrypted = encryptContent(key, randomBytes(1000));
+    const other = deriveKey('other', 'test');
+    await expect(pipeThrough(createDecryptStream(() => other), encrypted, 100)).rejects.toThrow();
+  });
+});
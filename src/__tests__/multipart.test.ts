@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'bun:test';
+import { Readable } from 'stream';
+import { createMultipartBody } from '../multipart';
+
+const readBody = async (body: Buffer | ReadableStream<Uint8Array>): Promise<Buffer> =>
+  Buffer.isBuffer(body) ? body : Buffer.from(await new Response(body).arrayBuffer());
+
+describe('createMultipartBody', () => {
+  it('should build a buffered body with its length', async () => {
+    const { body, headers } = createMultipartBody(
+      { public: 'true' },
+      { field: 'file', filename: 'a.txt', content: Buffer.from('hello'), contentType: 'text/plain' }
+    );
+    const boundary = headers['Content-Type'].split('boundary=')[1];
+    const text = (await readBody(body)).toString();
+    expect(Number(headers['Content-Length'])).toBe(Buffer.byteLength(text));
+    expect(text).toBe(
+      `--${boundary}\r\nContent-Disposition: form-data; name="public"\r\n\r\ntrue\r\n`
+      + `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="a.txt"\r\n`
+      + `Content-Type: text/plain\r\n\r\nhello\r\n--${boundary}--\r\n`
+    );
+  });
+
+  it('should stream a body with the same content', async () => {
+    const streamed = createMultipartBody({}, {
+      field: 'file',
+      filename: 'b.bin',
+      content: Readable.from([Buffer.from('ab'), Buffer.from('cd')]),
+      size: 4,
+    });
+    expect(Buffer.isBuffer(streamed.body)).toBe(false);
+    const content = await readBody(streamed.body);
+    expect(Number(streamed.headers['Content-Length'])).toBe(content.length);
+    expect(content.toString()).toContain('Content-Type: application/octet-stream\r\n\r\nabcd\r\n');
+  });
+
+  it('should leave out the length of a stream of unknown size', () => {
+    const { headers } = createMultipartBody({}, { field: 'file', filename: 'c', content: Readable.from([]) });
+    expect(headers['Content-Length']).toBeUndefined();
+  });
+
+  it('should escape quotes and line breaks in file names', async () => {
+    const { body } = createMultipartBody({}, { field: 'file', filename: 'a"b\r\n.txt', content: Buffer.from('') });
+    expect((await readBody(body)).toString()).toContain('filename="a%22b%0D%0A.txt"');
+  });
+});
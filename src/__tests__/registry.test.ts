@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { UPLOAD_TABLE, UploadRegistry } from '../clients/registry';
+import { createMemoryRuntime, createUUID } from './test-utils';
+
+const WALLET = '0xAbC0000000000000000000000000000000000001';
+
+describe('UploadRegistry', () => {
+  const alice = createUUID();
+  const bob = createUUID();
+  const room = createUUID();
+  let runtime: IAgentRuntime;
+  let registry: UploadRegistry;
+
+  const record = async (cid: string, filename: string, contentType: string, entityId: UUID, isPublic = false) => {
+    const uploaded = await registry.record({ cid, filename, size: 10, contentType, public: isPublic }, { entityId, roomId: room });
+    // Keep the upload order visible in the timestamps
+    await Bun.sleep(2);
+    return uploaded;
+  };
+
+  beforeEach(async () => {
+    runtime = createMemoryRuntime();
+    registry = new UploadRegistry(runtime, () => WALLET);
+    await record('cid1', 'Report-Q1.pdf', 'application/pdf', alice);
+    await record('cid2', 'holiday.jpg', 'image/jpeg', alice, true);
+    await record('cid3', 'report-q2.pdf', 'application/pdf', bob);
+    await record('cid4', 'notes.txt', 'text/plain', alice);
+  });
+
+  it('should record uploads in the upload table', async () => {
+    const [memory] = await runtime.getMemories({ tableName: UPLOAD_TABLE } as any);
+    expect(memory.entityId).toBe(alice);
+    expect((memory.metadata as any).upload).toMatchObject({ cid: 'cid1', wallet: WALLET.toLowerCase(), source: 'api' });
+  });
+
+  it('should list uploads newest first', async () => {
+    expect((await registry.query()).map((upload) => upload.cid)).toEqual(['cid4', 'cid3', 'cid2', 'cid1']);
+  });
+
+  it('should filter by uploader, name, type and visibility', async () => {
+    expect((await registry.query({ entityId: bob })).map((upload) => upload.cid)).toEqual(['cid3']);
+    expect((await registry.query({ name: 'report' })).map((upload) => upload.cid)).toEqual(['cid3', 'cid1']);
+    expect((await registry.query({ contentType: 'image/' })).map((upload) => upload.cid)).toEqual(['cid2']);
+    expect((await registry.query({ contentType: 'application/pdf', entityId: alice })).map((upload) => upload.cid)).toEqual(['cid1']);
+    expect((await registry.query({ public: true })).map((upload) => upload.cid)).toEqual(['cid2']);
+  });
+
+  it('should page results and count every match', async () => {
+    const { records, total } = await registry.queryWithTotal({ entityId: alice, limit: 2, offset: 1 });
+    expect(records.map((upload) => upload.cid)).toEqual(['cid2', 'cid1']);
+    expect(total).toBe(3);
+    expect(await registry.count({ entityId: alice })).toBe(3);
+  });
+
+  it('should only show the uploads of the configured wallet', async () => {
+    const other = new UploadRegistry(runtime, () => '0x0000000000000000000000000000000000000002');
+    expect(await other.query()).toEqual([]);
+  });
+
+  it('should hide deleted uploads unless asked', async () => {
+    expect(await registry.recordDeletion('cid4', bob)).toBe(1);
+    expect((await registry.query()).map((upload) => upload.cid)).toEqual(['cid3', 'cid2', 'cid1']);
+    const [deleted] = await registry.query({ cid: 'cid4', includeDeleted: true });
+    expect(deleted.deletedBy).toBe(bob);
+    expect(deleted.deletedAt).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, mock } from 'bun:test';
+import type { IAgentRuntime } from '@elizaos/core';
+import type { StorageService } from '../clients/storage';
+import { UploadRegistry } from '../clients/registry';
+import { type FileResolution, resolveFilesFromMessage } from '../resolve';
+import { createMemoryRuntime, createTestMemory, createUUID } from './test-utils';
+
+const names = (resolution: FileResolution): string[] =>
+  resolution.status === 'none' ? [] : resolution.files.map((file) => file.filename);
+
+describe('resolveFilesFromMessage', () => {
+  const entityId = createUUID();
+  const roomId = createUUID();
+  let runtime: IAgentRuntime;
+  let storageService: StorageService;
+  const useModel = mock(async () => '{"files": [1]}');
+
+  const resolve = (text: string) =>
+    resolveFilesFromMessage(runtime, storageService, createTestMemory({ entityId, roomId, content: { text } }));
+
+  beforeEach(async () => {
+    useModel.mockClear();
+    runtime = createMemoryRuntime({ useModel } as Partial<IAgentRuntime>);
+    const uploads = new UploadRegistry(runtime, () => '0x0000000000000000000000000000000000000001');
+    storageService = { uploads } as unknown as StorageService;
+    for (const filename of ['report-q1.pdf', 'report-q2.pdf', 'notes.txt']) {
+      await uploads.record({ cid: `cid-${filename}`, filename, size: 10, contentType: 'application/pdf', public: false }, { entityId, roomId });
+      await Bun.sleep(2);
+    }
+  });
+
+  it('should resolve a file by name', async () => {
+    const resolution = await resolve('get back my notes');
+    expect(resolution.status).toBe('resolved');
+    expect(names(resolution)).toEqual(['notes.txt']);
+  });
+
+  it('should offer a choice when several files match', async () => {
+    const resolution = await resolve('get back the report');
+    expect(resolution.status).toBe('ambiguous');
+    expect(names(resolution)).toEqual(['report-q2.pdf', 'report-q1.pdf']);
+  });
+
+  it('should pick from the offered files by number or ordinal', async () => {
+    await resolve('get back the report');
+    expect(names(await resolve('2'))).toEqual(['report-q1.pdf']);
+    await resolve('get back the report');
+    expect(names(await resolve('the first one please'))).toEqual(['report-q2.pdf']);
+    await resolve('get back the report');
+    expect(names(await resolve('both'))).toEqual(['report-q2.pdf', 'report-q1.pdf']);
+  });
+
+  it('should resolve a new request instead of picking from the offered files', async () => {
+    await resolve('get back the report');
+    expect(names(await resolve('get back the notes instead, I need 2 copies'))).toEqual(['notes.txt']);
+    // The question was dropped, so a bare number no longer picks a report
+    await resolve('2');
+    expect(useModel).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resolve every or the latest match without asking', async () => {
+    expect(names(await resolve('get both report files'))).toEqual(['report-q2.pdf', 'report-q1.pdf']);
+    expect(names(await resolve('get the latest report'))).toEqual(['report-q2.pdf']);
+  });
+
+  it('should ask the model when nothing matches by name or date', async () => {
+    const resolution = await resolve('send me that thing from the meeting');
+    expect(useModel).toHaveBeenCalledTimes(1);
+    expect(names(resolution)).toEqual(['notes.txt']);
+  });
+});
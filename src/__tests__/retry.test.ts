@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  MAX_RETRY_DELAY_MS,
+  type RetryPolicy,
+  getBackoffDelay,
+  isRetryableFetchError,
+  isRetryableStatus,
+  parseRetryAfter,
+  sleep,
+} from '../retry';
+
+const policy: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  jitter: 0,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+};
+
+describe('getBackoffDelay', () => {
+  it('should double the delay with every retry', () => {
+    expect(getBackoffDelay(policy, 1)).toBe(500);
+    expect(getBackoffDelay(policy, 2)).toBe(1000);
+    expect(getBackoffDelay(policy, 3)).toBe(2000);
+  });
+
+  it('should cap the delay', () => {
+    expect(getBackoffDelay(policy, 20)).toBe(MAX_RETRY_DELAY_MS);
+  });
+
+  it('should keep jitter within its spread', () => {
+    for (let i = 0; i < 50; i++) {
+      const delay = getBackoffDelay({ ...policy, jitter: 0.2 }, 2);
+      expect(delay).toBeGreaterThanOrEqual(800);
+      expect(delay).toBeLessThanOrEqual(1200);
+    }
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse seconds', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('3600')).toBe(MAX_RETRY_DELAY_MS);
+  });
+
+  it('should parse an HTTP date', () => {
+    const delay = parseRetryAfter(new Date(Date.now() + 10000).toUTCString());
+    expect(delay).toBeGreaterThan(8000);
+    expect(delay).toBeLessThanOrEqual(10000);
+    expect(parseRetryAfter(new Date(Date.now() - 10000).toUTCString())).toBe(0);
+  });
+
+  it('should ignore missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
+
+describe('isRetryableStatus', () => {
+  it('should retry listed statuses of idempotent requests', () => {
+    expect(isRetryableStatus(policy, 502, true)).toBe(true);
+    expect(isRetryableStatus(policy, 404, true)).toBe(false);
+  });
+
+  it('should only retry refused non-idempotent requests', () => {
+    expect(isRetryableStatus(policy, 503, false)).toBe(true);
+    expect(isRetryableStatus(policy, 429, false)).toBe(true);
+    expect(isRetryableStatus(policy, 502, false)).toBe(false);
+  });
+});
+
+describe('isRetryableFetchError', () => {
+  it('should retry any failure of idempotent requests', () => {
+    expect(isRetryableFetchError(new Error('socket hang up'), true)).toBe(true);
+  });
+
+  it('should only retry non-idempotent requests that were not sent', () => {
+    const refused = Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNREFUSED' } });
+    const reset = Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNRESET' } });
+    expect(isRetryableFetchError(refused, false)).toBe(true);
+    expect(isRetryableFetchError(reset, false)).toBe(false);
+  });
+});
+
+describe('sleep', () => {
+  it('should resolve after the delay', async () => {
+    await expect(sleep(1)).resolves.toBeUndefined();
+  });
+
+  it('should reject once the signal aborts', async () => {
+    const controller = new AbortController();
+    const waiting = sleep(10000, controller.signal);
+    controller.abort(new Error('stopped'));
+    await expect(waiting).rejects.toThrow('stopped');
+  });
+});
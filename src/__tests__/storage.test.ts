@@ -0,0 +1,541 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { IAgentRuntime } from '@elizaos/core';
+import { StorageService } from '../clients/storage';
+import { MefsAbortError, MefsQuotaError, MefsTimeoutError } from '../errors';
+import { createMemoryRuntime } from './test-utils';
+
+const API_URL = 'https://mefs.test/produce';
+const PRIVATE_KEY = '4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318';
+
+type MefsRequest = {
+  method: string;
+  path: string;
+  url: URL;
+  headers: Headers;
+  init: RequestInit;
+};
+
+type MefsRoute = (request: MefsRequest) => Response | Promise<Response>;
+
+const realFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+/**
+ * Replace fetch with a mock MEFS API. Routes are keyed by method and path,
+ * and a path ending in * matches any path it starts. Unknown paths get a 404.
+ * @returns every request sent, as "METHOD /path"
+ */
+function mockMefs(routes: Record<string, MefsRoute>): string[] {
+  const requests: string[] = [];
+  globalThis.fetch = (async (input: string | URL | Request, init: RequestInit = {}) => {
+    const url = new URL(String(input));
+    const method = (init.method ?? 'GET').toUpperCase();
+    const path = url.pathname.slice(new URL(API_URL).pathname.length);
+    requests.push(`${method} ${path}`);
+    const route = Object.keys(routes).find((key) => {
+      const [routeMethod, routePath] = key.split(' ');
+      return routeMethod === method
+        && (routePath.endsWith('*') ? path.startsWith(routePath.slice(0, -1)) : path === routePath);
+    });
+    if (!route) {
+      return new Response('not found', { status: 404 });
+    }
+    return routes[route]({ method, path, url, headers: new Headers(init.headers), init });
+  }) as typeof fetch;
+  return requests;
+}
+
+/**
+ * Never answer a request, until it is aborted
+ */
+function hang({ init }: MefsRequest): Promise<Response> {
+  return new Promise((_resolve, reject) => {
+    init.signal?.addEventListener('abort', () => reject(init.signal?.reason), { once: true });
+  });
+}
+
+/**
+ * Answer the challenge and issue the given tokens on login
+ */
+function loginRoutes(tokens: Record<string, unknown> = { accessToken: 'access-1', refreshToken: 'refresh-1' }) {
+  return {
+    'GET /challenge': () => new Response('sign me'),
+    'POST /login': () => Response.json(tokens),
+  };
+}
+
+/**
+ * Creates a runtime with the given MEFS settings, keeping its cache in memory
+ */
+function createStorageRuntime(settings: Record<string, string> = {}): IAgentRuntime {
+  const values: Record<string, string> = {
+    MEFS_API_URL: API_URL,
+    MEFS_PRIVATE_KEY: PRIVATE_KEY,
+    MEFS_RETRY_BASE_DELAY_MS: '1',
+    ...settings,
+  };
+  return createMemoryRuntime({
+    getSetting: (key: string) => values[key] ?? null,
+  } as Partial<IAgentRuntime>);
+}
+
+describe('StorageService session renewal', () => {
+  it('should refresh the session on a 401 and retry the request', async () => {
+    const requests = mockMefs({
+      ...loginRoutes(),
+      'POST /refresh': ({ headers }) => headers.get('authorization') === 'Bearer refresh-1'
+        ? Response.json({ accessToken: 'access-2' })
+        : new Response('bad refresh token', { status: 401 }),
+      'GET /mefs/*': ({ headers }) => headers.get('authorization') === 'Bearer access-2'
+        ? new Response('hello')
+        : new Response('expired', { status: 401 }),
+    });
+    const service = await StorageService.start(createStorageRuntime());
+
+    expect((await service.retrieveFile('cid1', undefined, { verify: 'off' })).toString()).toBe('hello');
+    expect(requests).toEqual(['GET /challenge', 'POST /login', 'GET /mefs/cid1', 'POST /refresh', 'GET /mefs/cid1']);
+    await service.stop();
+  });
+
+  it('should log in again when the refresh token is rejected', async () => {
+    let logins = 0;
+    const requests = mockMefs({
+      'GET /challenge': () => new Response('sign me'),
+      'POST /login': () => Response.json({ accessToken: `access-${++logins}`, refreshToken: 'refresh' }),
+      'POST /refresh': () => new Response('revoked', { status: 401 }),
+      'GET /mefs/*': ({ headers }) => headers.get('authorization') === 'Bearer access-2'
+        ? new Response('hello')
+        : new Response('expired', { status: 401 }),
+    });
+    const service = await StorageService.start(createStorageRuntime());
+
+    expect((await service.retrieveFile('cid1', undefined, { verify: 'off' })).toString()).toBe('hello');
+    expect(requests.slice(2)).toEqual(['GET /mefs/cid1', 'POST /refresh', 'GET /challenge', 'POST /login', 'GET /mefs/cid1']);
+    await service.stop();
+  });
+});
+
+describe('StorageService shared login', () => {
+  it('should log in once for concurrent callers', async () => {
+    const requests = mockMefs(loginRoutes());
+    const service = new StorageService(createStorageRuntime());
+
+    await Promise.all([service.initializeStorage(), service.initializeStorage(), service.initializeStorage()]);
+    expect(requests).toEqual(['GET /challenge', 'POST /login']);
+    await service.stop();
+  });
+
+  it('should refresh once when concurrent requests get a 401', async () => {
+    const requests = mockMefs({
+      ...loginRoutes(),
+      'POST /refresh': async () => {
+        await Bun.sleep(5);
+        return Response.json({ accessToken: 'access-2' });
+      },
+      'GET /mefs/*': ({ headers }) => headers.get('authorization') === 'Bearer access-2'
+        ? new Response('hello')
+        : new Response('expired', { status: 401 }),
+    });
+    const service = await StorageService.start(createStorageRuntime());
+
+    const contents = await Promise.all(['cid1', 'cid2', 'cid3'].map((cid) => service.retrieveFile(cid, undefined, { verify: 'off' })));
+    expect(contents.map((content) => content.toString())).toEqual(['hello', 'hello', 'hello']);
+    expect(requests.filter((request) => request === 'POST /refresh')).toHaveLength(1);
+    await service.stop();
+  });
+});
+
+/**
+ * Creates an unsigned JWT expiring at the given time, in seconds since epoch
+ */
+function createJwt(expiresAt: number): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'none' })}.${encode({ iat: Math.floor(Date.now() / 1000), exp: expiresAt })}.signature`;
+}
+
+describe('StorageService session cache', () => {
+  it('should reuse the session saved by a previous run', async () => {
+    const requests = mockMefs({
+      ...loginRoutes(),
+      'GET /mefs/*': () => new Response('hello'),
+    });
+    const runtime = createStorageRuntime();
+    await (await StorageService.start(runtime)).stop();
+
+    const service = await StorageService.start(runtime);
+    expect(service.getTokenState().authenticated).toBe(true);
+    await service.retrieveFile('cid1', undefined, { verify: 'off' });
+    expect(requests).toEqual(['GET /challenge', 'POST /login', 'GET /mefs/cid1']);
+    await service.stop();
+  });
+
+  it('should refresh a saved session whose access token expired', async () => {
+    const expired = createJwt(Math.floor(Date.now() / 1000) - 60);
+    const requests = mockMefs({
+      ...loginRoutes({ accessToken: expired, refreshToken: 'refresh-1' }),
+      'POST /refresh': () => Response.json({ accessToken: createJwt(Math.floor(Date.now() / 1000) + 3600) }),
+    });
+    const runtime = createStorageRuntime();
+    // The first run saves the expired token it got on login
+    await (await StorageService.start(runtime)).stop();
+    requests.length = 0;
+
+    const service = await StorageService.start(runtime);
+    expect(requests).toEqual(['POST /refresh']);
+    await service.stop();
+  });
+
+  it('should not restore the session of another wallet', async () => {
+    const requests = mockMefs(loginRoutes());
+    const runtime = createStorageRuntime();
+    await (await StorageService.start(runtime)).stop();
+    requests.length = 0;
+
+    const other = createMemoryRuntime({
+      getCache: runtime.getCache,
+      setCache: runtime.setCache,
+      deleteCache: runtime.deleteCache,
+      getSetting: (key: string) => key === 'MEFS_PRIVATE_KEY' ? '1'.repeat(64) : runtime.getSetting(key),
+    } as Partial<IAgentRuntime>);
+    await (await StorageService.start(other)).stop();
+    expect(requests).toEqual(['GET /challenge', 'POST /login']);
+  });
+});
+
+describe('StorageService cancellation', () => {
+  it('should time out an operation', async () => {
+    mockMefs({ ...loginRoutes(), 'GET /mefs/*': hang });
+    const service = await StorageService.start(createStorageRuntime());
+
+    await expect(service.retrieveFile('cid1', undefined, { timeoutMs: 20 })).rejects.toBeInstanceOf(MefsTimeoutError);
+    await service.stop();
+  });
+
+  it('should time out the first login', async () => {
+    mockMefs({ 'GET /challenge': hang });
+    const service = new StorageService(createStorageRuntime());
+
+    await expect(service.initializeStorage({ timeoutMs: 20 })).rejects.toBeInstanceOf(MefsTimeoutError);
+    await service.stop();
+  });
+
+  it("should stop when the caller's signal aborts", async () => {
+    mockMefs({ ...loginRoutes(), 'GET /mefs/*': hang });
+    const service = await StorageService.start(createStorageRuntime());
+    const controller = new AbortController();
+
+    const retrieval = service.retrieveFile('cid1', undefined, { signal: controller.signal });
+    controller.abort();
+    await expect(retrieval).rejects.toBeInstanceOf(MefsAbortError);
+    await service.stop();
+  });
+
+  it('should cancel in-flight requests when the service stops', async () => {
+    mockMefs({ ...loginRoutes(), 'GET /mefs/*': hang });
+    const service = await StorageService.start(createStorageRuntime());
+
+    const retrieval = service.retrieveFile('cid1');
+    await Bun.sleep(5);
+    await service.stop();
+    await expect(retrieval).rejects.toThrow('Storage service stopped');
+  });
+});
+
+describe('StorageService deduplication', () => {
+  const content = Buffer.from('hello world');
+
+  it('should skip uploading public content MEFS already stores', async () => {
+    const requests = mockMefs({
+      ...loginRoutes(),
+      'HEAD /mefs/*': () => new Response(null, { status: 200 }),
+    });
+    const service = await StorageService.start(createStorageRuntime());
+    const expected = service.computeCid(content);
+
+    expect(await service.uploadFile(content, 'hello.txt', true)).toBe(expected);
+    expect(requests.slice(2)).toEqual([`HEAD /mefs/${expected}`]);
+    await service.stop();
+  });
+
+  it('should upload content MEFS does not store, and never check private files', async () => {
+    let uploads = 0;
+    const requests = mockMefs({
+      ...loginRoutes(),
+      'HEAD /mefs/*': () => new Response(null, { status: 404 }),
+      'POST /mefs/': () => Response.json({ Mid: `cid-${++uploads}` }),
+    });
+    const service = await StorageService.start(createStorageRuntime());
+
+    expect(await service.uploadFile(content, 'hello.txt', true)).toBe('cid-1');
+    expect(await service.uploadFile(content, 'hello.txt', false)).toBe('cid-2');
+    expect(requests.filter((request) => request.startsWith('HEAD'))).toHaveLength(1);
+    expect((await service.uploads.query({ cid: 'cid-1' }))[0].public).toBe(true);
+    await service.stop();
+  });
+});
+
+describe('StorageService chunked uploads', () => {
+  const PART_SIZE = 256 * 1024;
+  const content = Buffer.alloc(PART_SIZE * 2 + 100, 7);
+
+  /**
+   * Mock the multipart API, failing the given part once
+   */
+  function mockMultipart(failPart: number) {
+    const started: Array<Record<string, unknown>> = [];
+    const parts = new Map<number, string>();
+    const requests = mockMefs({
+      ...loginRoutes(),
+      'POST /mefs/multipart': ({ init }) => {
+        started.push(JSON.parse(String(init.body)));
+        return Response.json({ uploadId: `upload-${started.length}` });
+      },
+      'PUT /mefs/multipart/*': ({ path, headers }) => {
+        const part = Number(path.split('/').pop());
+        if (part === failPart) {
+          failPart = 0;
+          return new Response('bad part', { status: 400 });
+        }
+        parts.set(part, headers.get('x-content-sha256') ?? '');
+        return Response.json({});
+      },
+      'GET /mefs/multipart/*': () => Response.json({ parts: [...parts].map(([part, hash]) => ({ part, hash })) }),
+      'POST /mefs/multipart/*': () => Response.json({ Mid: 'cid-chunked' }),
+      'POST /mefs/': () => Response.json({ Mid: 'cid-whole' }),
+    });
+    return { requests, started };
+  }
+
+  it('should resume an interrupted upload with the key it was started with', async () => {
+    const { requests, started } = mockMultipart(2);
+    const service = await StorageService.start(createStorageRuntime({ MEFS_UPLOAD_PART_SIZE: String(PART_SIZE) }));
+    const options = { generateKey: true, chunked: true };
+
+    await expect(service.uploadFile(content, 'big.bin', options)).rejects.toThrow();
+    requests.length = 0;
+    expect(await service.uploadFile(content, 'big.bin', options)).toBe('cid-chunked');
+
+    expect(started).toHaveLength(1);
+    expect(requests.filter((request) => request.startsWith('PUT'))).toEqual([
+      'PUT /mefs/multipart/upload-1/2',
+      'PUT /mefs/multipart/upload-1/3',
+    ]);
+    expect(await service.keys.getKey('cid-chunked')).toBe(started[0].key as string);
+    await service.stop();
+  });
+
+  it('should upload files from MEFS_CHUNKED_UPLOAD_THRESHOLD bytes in chunks', async () => {
+    const { started } = mockMultipart(0);
+    const service = await StorageService.start(createStorageRuntime({
+      MEFS_UPLOAD_PART_SIZE: String(PART_SIZE),
+      MEFS_CHUNKED_UPLOAD_THRESHOLD: String(content.length),
+    }));
+
+    expect(await service.uploadFile(content, 'big.bin')).toBe('cid-chunked');
+    expect(await service.uploadFile(content.subarray(1), 'smaller.bin')).toBe('cid-whole');
+    expect(started).toHaveLength(1);
+    await service.stop();
+  });
+
+  it('should upload in chunks from 64 MiB by default', async () => {
+    mockMefs(loginRoutes());
+    const service = await StorageService.start(createStorageRuntime());
+    expect(service.getConfig().MEFS_CHUNKED_UPLOAD_THRESHOLD).toBe(64 * 1024 * 1024);
+    await service.stop();
+  });
+
+  it('should upload in a single request if MEFS has no multipart API', async () => {
+    const requests = mockMefs({
+      ...loginRoutes(),
+      'POST /mefs/': () => Response.json({ Mid: 'cid-whole' }),
+    });
+    const service = await StorageService.start(createStorageRuntime({ MEFS_CHUNKED_UPLOAD_THRESHOLD: '1' }));
+
+    expect(await service.uploadFile(content, 'big.bin')).toBe('cid-whole');
+    expect(await service.uploadFile(content, 'big.bin')).toBe('cid-whole');
+    expect(requests.filter((request) => request === 'POST /mefs/multipart')).toHaveLength(1);
+    await service.stop();
+  });
+
+  it('should not resume an upload under another key', async () => {
+    const { started } = mockMultipart(2);
+    const service = await StorageService.start(createStorageRuntime({ MEFS_UPLOAD_PART_SIZE: String(PART_SIZE) }));
+
+    await expect(service.uploadFile(content, 'big.bin', { key: 'first', chunked: true })).rejects.toThrow();
+    await service.uploadFile(content, 'big.bin', { key: 'second', chunked: true });
+    expect(started.map((upload) => upload.key)).toEqual(['first', 'second']);
+    await service.stop();
+  });
+});
+
+describe('StorageService quota check', () => {
+  /**
+   * Mock an account with the given answer of GET /account
+   */
+  function mockAccount(account: Response | (() => Response)) {
+    let uploads = 0;
+    return mockMefs({
+      ...loginRoutes(),
+      'GET /account': () => typeof account === 'function' ? account() : account.clone(),
+      'POST /mefs/': () => Response.json({ Mid: `cid-${++uploads}` }),
+    });
+  }
+
+  it('should refuse an upload larger than the storage left, before sending it', async () => {
+    const requests = mockAccount(Response.json({ usedBytes: 90, quotaBytes: 100 }));
+    const service = await StorageService.start(createStorageRuntime());
+
+    await expect(service.uploadFile(Buffer.alloc(20), 'big.bin', true)).rejects.toBeInstanceOf(MefsQuotaError);
+    expect(requests).not.toContain('POST /mefs/');
+    await service.stop();
+  });
+
+  it('should check a batch of uploads against what is left after each upload', async () => {
+    const requests = mockAccount(Response.json({ usedBytes: 0, quotaBytes: 100 }));
+    const service = await StorageService.start(createStorageRuntime());
+
+    expect(await service.uploadFile(Buffer.alloc(60, 1), 'a.bin', true)).toBe('cid-1');
+    await expect(service.uploadFile(Buffer.alloc(60, 2), 'b.bin', true)).rejects.toBeInstanceOf(MefsQuotaError);
+    expect(await service.uploadFile(Buffer.alloc(40, 3), 'c.bin', true)).toBe('cid-2');
+    expect(requests.filter((request) => request === 'GET /account')).toHaveLength(1);
+    await service.stop();
+  });
+
+  it('should upload when the account cannot be had, asking MEFS once', async () => {
+    const requests = mockAccount(() => new Response('no such endpoint', { status: 404 }));
+    const service = await StorageService.start(createStorageRuntime());
+
+    expect(await service.uploadFile(Buffer.alloc(10, 1), 'a.bin', true)).toBe('cid-1');
+    expect(await service.uploadFile(Buffer.alloc(10, 2), 'b.bin', true)).toBe('cid-2');
+    expect(requests.filter((request) => request === 'GET /account')).toHaveLength(1);
+    await service.stop();
+  });
+});
+
+describe('StorageService content verification', () => {
+  it('should verify content stored with the configured chunk size', async () => {
+    const content = Buffer.alloc(3 * 1024 * 1024, 9);
+    mockMefs({
+      ...loginRoutes(),
+      'GET /mefs/*': () => new Response(content),
+    });
+    const service = await StorageService.start(createStorageRuntime({
+      MEFS_CID_CHUNK_SIZE: String(1024 * 1024),
+      MEFS_VERIFY_CONTENT: 'strict',
+    }));
+    const cid = service.computeCid(content);
+
+    expect((await service.retrieveFile(cid)).equals(content)).toBe(true);
+    const chunks: Buffer[] = [];
+    for await (const chunk of await service.retrieveStream(cid)) {
+      chunks.push(chunk as Buffer);
+    }
+    expect(Buffer.concat(chunks).equals(content)).toBe(true);
+    await service.stop();
+  });
+});
+
+describe('StorageService retrieval to disk', () => {
+  it('should keep the type and file name MEFS reports', async () => {
+    const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'mefs-test-'));
+    mockMefs({
+      ...loginRoutes(),
+      'GET /mefs/*': () => new Response('{"ok":true}', {
+        headers: {
+          'Content-Type': 'application/json; charset=utf-8',
+          'Content-Disposition': 'attachment; filename="result.json"',
+        },
+      }),
+    });
+    const service = await StorageService.start(createStorageRuntime({ MEFS_VERIFY_CONTENT: 'off' }));
+
+    try {
+      const destPath = path.join(directory, 'file');
+      expect(await service.retrieveToPath('cid-1', destPath)).toEqual({
+        contentType: 'application/json',
+        filename: 'result.json',
+        size: 11,
+      });
+      expect(await fs.promises.readFile(destPath, 'utf-8')).toBe('{"ok":true}');
+    } finally {
+      await service.stop();
+      await fs.promises.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('StorageService deletion', () => {
+  it('should finish a deletion whose retry finds the file gone', async () => {
+    let deletes = 0;
+    const requests = mockMefs({
+      ...loginRoutes(),
+      // The first attempt deletes the file but its answer is lost
+      'DELETE /mefs/*': () => new Response(null, { status: ++deletes === 1 ? 503 : 404 }),
+      'POST /mefs/': () => Response.json({ Mid: 'cid-private' }),
+    });
+    const service = await StorageService.start(createStorageRuntime());
+    const cid = await service.uploadFile(Buffer.from('secret'), 'secret.txt', { generateKey: true });
+    expect(await service.keys.getKey(cid)).toBeDefined();
+
+    await service.deleteFile(cid);
+    expect(requests.filter((request) => request.startsWith('DELETE'))).toHaveLength(2);
+    expect(await service.keys.getKey(cid)).toBeUndefined();
+    expect(await service.uploads.query({ cid })).toEqual([]);
+    await service.stop();
+  });
+});
+
+describe('StorageService key rotation', () => {
+  it('should delete the copy under the old key', async () => {
+    const stored = new Map<string, Buffer>();
+    const requests = mockMefs({
+      ...loginRoutes(),
+      'POST /mefs/': async ({ headers, init }) => {
+        const file = (await new Response(init.body, { headers }).formData()).get('file') as Blob;
+        const cid = `cid-${stored.size + 1}`;
+        stored.set(cid, Buffer.from(await file.arrayBuffer()));
+        return Response.json({ Mid: cid });
+      },
+      'GET /mefs/*': ({ path }) => new Response(stored.get(path.slice('/mefs/'.length))),
+      'DELETE /mefs/*': () => new Response(null, { status: 200 }),
+    });
+    const service = await StorageService.start(createStorageRuntime({ MEFS_VERIFY_CONTENT: 'off' }));
+    const cid = await service.uploadFile(Buffer.from('secret'), 'secret.txt', { generateKey: true });
+    const oldKey = await service.keys.getKey(cid);
+
+    const newCid = await service.rotateFileKey(cid);
+    expect(newCid).toBe('cid-2');
+    expect(stored.get(newCid)?.toString()).toBe('secret');
+    expect(requests).toContain(`DELETE /mefs/${cid}`);
+    expect(await service.keys.getKey(cid)).toBeUndefined();
+    expect(await service.keys.getKey(newCid)).not.toBe(oldKey);
+    expect((await service.uploads.query({ cid, includeDeleted: true }))[0].deletedAt).toBeDefined();
+    expect((await service.uploads.query({ cid: newCid }))[0].filename).toBe('secret.txt');
+    await service.stop();
+  });
+
+  it('should keep the old key if the old copy cannot be deleted', async () => {
+    let uploads = 0;
+    mockMefs({
+      ...loginRoutes(),
+      'POST /mefs/': () => Response.json({ Mid: `cid-${++uploads}` }),
+      'GET /mefs/*': () => new Response('secret'),
+      'DELETE /mefs/*': () => new Response('forbidden', { status: 403 }),
+    });
+    const service = await StorageService.start(createStorageRuntime({ MEFS_VERIFY_CONTENT: 'off' }));
+    const cid = await service.uploadFile(Buffer.from('secret'), 'secret.txt', { generateKey: true });
+    const oldKey = await service.keys.getKey(cid);
+
+    await expect(service.rotateFileKey(cid)).rejects.toThrow();
+    expect(await service.keys.getKey(cid)).toBe(oldKey);
+    expect(await service.keys.getKey('cid-2')).toBeDefined();
+    expect(await service.uploads.query({ cid })).toHaveLength(1);
+    await service.stop();
+  });
+});
@@ -295,6 +295,41 @@ export function createMockRuntime(overrides: Partial<IAgentRuntime> = {}): IAgen
   return mockRuntime;
 }
 
+/**
+ * Creates a mock runtime that keeps memories and cache entries in memory,
+ * filtering memories like the database would
+ */
+export function createMemoryRuntime(overrides: Partial<IAgentRuntime> = {}): IAgentRuntime {
+  const memories: Array<Memory & { tableName: string }> = [];
+  const cache = new Map<string, unknown>();
+  return createMockRuntime({
+    createMemory: async (memory: Memory, tableName: string) => {
+      memories.push({ ...memory, tableName });
+      return memory.id as UUID;
+    },
+    getMemories: async (params: any) => memories.filter((memory) =>
+      memory.tableName === params.tableName
+      && (!params.roomId || memory.roomId === params.roomId)
+      && (!params.entityId || memory.entityId === params.entityId)
+      && (params.start === undefined || (memory.createdAt ?? 0) >= params.start)
+      && (params.end === undefined || (memory.createdAt ?? 0) <= params.end)),
+    updateMemory: async (update: any) => {
+      const memory = memories.find((entry) => entry.id === update.id);
+      if (memory) {
+        memory.metadata = update.metadata;
+      }
+      return !!memory;
+    },
+    getCache: async (key: string) => cache.get(key) as any,
+    setCache: async (key: string, value: unknown) => {
+      cache.set(key, value);
+      return true;
+    },
+    deleteCache: async (key: string) => cache.delete(key),
+    ...overrides,
+  } as Partial<IAgentRuntime>);
+}
+
 /**
  * Creates test fixtures for event payloads
  */
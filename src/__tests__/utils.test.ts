@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  DEFAULT_PAGE_SIZE,
+  getByteRangeFromMessage,
+  getCIDsFromMessage,
+  getListFiltersFromMessage,
+  getPassphraseFromMessage,
+  getUploadPreferencesFromMessage,
+} from '../utils';
+import { createTestMemory } from './test-utils';
+
+const say = (text: string) => createTestMemory({ content: { text } });
+
+describe('getCIDsFromMessage', () => {
+  it('should find CIDv0 and CIDv1 values', () => {
+    const v0 = 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco';
+    const v1 = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+    expect(getCIDsFromMessage(say(`get ${v0} and ${v1}`))).toEqual([v0, v1]);
+  });
+
+  it('should ignore words that are not CIDs', () => {
+    expect(getCIDsFromMessage(say('bring back the big book'))).toEqual([]);
+  });
+});
+
+describe('getByteRangeFromMessage', () => {
+  it('should parse the first bytes of a file', () => {
+    expect(getByteRangeFromMessage(say('show the first 4 KB'))).toEqual({ start: 0, end: 4096 });
+    expect(getByteRangeFromMessage(say('first 10 bytes'))).toEqual({ start: 0, end: 10 });
+  });
+
+  it('should parse inclusive byte ranges', () => {
+    expect(getByteRangeFromMessage(say('bytes 100-199'))).toEqual({ start: 100, end: 200 });
+    expect(getByteRangeFromMessage(say('bytes 200 to 100'))).toBeNull();
+  });
+
+  it('should parse pages', () => {
+    expect(getByteRangeFromMessage(say('page 2'))).toEqual({ start: DEFAULT_PAGE_SIZE, end: 2 * DEFAULT_PAGE_SIZE });
+    expect(getByteRangeFromMessage(say('page 0'))).toBeNull();
+  });
+
+  it('should return null for the whole file', () => {
+    expect(getByteRangeFromMessage(say('get the report'))).toBeNull();
+  });
+});
+
+describe('getPassphraseFromMessage', () => {
+  it('should read quoted passphrases', () => {
+    expect(getPassphraseFromMessage(say('with password "blue whale"'))).toBe('blue whale');
+    expect(getPassphraseFromMessage(say("passphrase 'a b c'"))).toBe('a b c');
+  });
+
+  it('should read unquoted passphrases after "is" or ":"', () => {
+    expect(getPassphraseFromMessage(say('the password is hunter2'))).toBe('hunter2');
+    expect(getPassphraseFromMessage(say('password: hunter2'))).toBe('hunter2');
+  });
+
+  it('should read unquoted passphrases after "password"', () => {
+    expect(getPassphraseFromMessage(say('save it with password hunter2'))).toBe('hunter2');
+    expect(getPassphraseFromMessage(say('password protected, the password is s3cret'))).toBe('s3cret');
+  });
+
+  it('should drop trailing punctuation of unquoted passphrases', () => {
+    expect(getPassphraseFromMessage(say('the password is hunter2.'))).toBe('hunter2');
+    expect(getPassphraseFromMessage(say('save it with password hunter2, please!'))).toBe('hunter2');
+    expect(getPassphraseFromMessage(say('with password "hunter2."'))).toBe('hunter2.');
+  });
+
+  it('should not take the next word as a passphrase', () => {
+    expect(getPassphraseFromMessage(say('upload it password protected'))).toBeNull();
+    expect(getPassphraseFromMessage(say('upload it password-protected'))).toBeNull();
+    expect(getPassphraseFromMessage(say('no password needed'))).toBeNull();
+    expect(getPassphraseFromMessage(say('what is my password?'))).toBeNull();
+  });
+});
+
+describe('getUploadPreferencesFromMessage', () => {
+  it('should keep files private by default', () => {
+    expect(getUploadPreferencesFromMessage(say('upload this'))).toEqual({ public: false });
+  });
+
+  it('should make files public when asked', () => {
+    expect(getUploadPreferencesFromMessage(say('upload this publicly')).public).toBe(true);
+    expect(getUploadPreferencesFromMessage(say('make it public')).public).toBe(true);
+  });
+
+  it('should keep files private when public is negated', () => {
+    for (const text of [
+      "don't make it public",
+      'do not share it publicly',
+      'never public',
+      'a non-public upload',
+      'make it private, not public',
+    ]) {
+      expect(getUploadPreferencesFromMessage(say(text)).public).toBe(false);
+    }
+  });
+
+  it('should read the password and the file name', () => {
+    expect(getUploadPreferencesFromMessage(say('save it with password "blue whale" as report.pdf'))).toEqual({
+      public: false,
+      passphrase: 'blue whale',
+      filename: 'report.pdf',
+    });
+  });
+
+  it('should read an unquoted password', () => {
+    expect(getUploadPreferencesFromMessage(say('save it with password hunter2.'))).toEqual({
+      public: false,
+      passphrase: 'hunter2',
+    });
+  });
+
+  it('should prefer the options passed to the action', () => {
+    expect(getUploadPreferencesFromMessage(say('upload this publicly'), { visibility: 'private', filename: 'a/b.txt' }))
+      .toEqual({ public: false, filename: 'b.txt' });
+  });
+});
+
+describe('getListFiltersFromMessage', () => {
+  const now = Date.UTC(2025, 5, 15, 12);
+  const startOfToday = Date.UTC(2025, 5, 15);
+
+  it("should list the user's own files by default", () => {
+    expect(getListFiltersFromMessage(say('what files do I have?'), {}, now)).toEqual({
+      scope: 'mine',
+      page: 1,
+      pageSize: 10,
+      name: undefined,
+      contentType: undefined,
+      since: undefined,
+      until: undefined,
+    });
+  });
+
+  it('should list the files of the room', () => {
+    expect(getListFiltersFromMessage(say('what did everyone in this room upload?'), {}, now).scope).toBe('room');
+  });
+
+  it('should read the type and the name', () => {
+    const filters = getListFiltersFromMessage(say('images named holiday'), {}, now);
+    expect(filters.contentType).toBe('image/');
+    expect(filters.name).toBe('holiday');
+    expect(getListFiltersFromMessage(say('files named photo'), {}, now).contentType).toBeUndefined();
+  });
+
+  it('should read dates', () => {
+    expect(getListFiltersFromMessage(say('files from today'), {}, now).since).toBe(startOfToday);
+    const yesterday = getListFiltersFromMessage(say('files from yesterday'), {}, now);
+    expect(yesterday.since).toBe(startOfToday - 86400000);
+    expect(yesterday.until).toBe(startOfToday - 1);
+    expect(getListFiltersFromMessage(say('in the last 7 days'), {}, now).since).toBe(now - 7 * 86400000);
+    expect(getListFiltersFromMessage(say('since 2025-01-01'), {}, now).since).toBe(Date.UTC(2025, 0, 1));
+  });
+
+  it('should read the page', () => {
+    expect(getListFiltersFromMessage(say('page 3'), {}, now).page).toBe(3);
+    expect(getListFiltersFromMessage(say('page 2'), { page: 4, pageSize: 5 }, now)).toMatchObject({ page: 4, pageSize: 5 });
+  });
+});
@@ -0,0 +1,34 @@
+import { IAgentRuntime, Memory, Role, logger } from "@elizaos/core";
+import type { StorageService } from "./clients/storage";
+
+/**
+ * Whether the sender of a message operates the agent: the agent itself, an
+ * entity listed in MEFS_ADMIN_ENTITY_IDS, or the owner or an admin of the
+ * world the message was sent in
+ */
+export const isOperator = async (
+    runtime: IAgentRuntime,
+    storageService: StorageService,
+    message: Memory
+): Promise<boolean> => {
+    const entityId = message.entityId;
+    if (!entityId) {
+        return false;
+    }
+    if (entityId === runtime.agentId || storageService.getConfig().MEFS_ADMIN_ENTITY_IDS.includes(entityId)) {
+        return true;
+    }
+
+    try {
+        const worldId = message.worldId ?? (await runtime.getRoom(message.roomId))?.worldId;
+        const world = worldId ? await runtime.getWorld(worldId) : null;
+        if (!world?.metadata) {
+            return false;
+        }
+        const role = world.metadata.roles?.[entityId];
+        return world.metadata.ownership?.ownerId === entityId || role === Role.OWNER || role === Role.ADMIN;
+    } catch (error: any) {
+        logger.warn(`Failed to look up the role of ${entityId}: ${error instanceof Error ? error.message : String(error)}`);
+        return false;
+    }
+};
@@ -0,0 +1,127 @@
+import {
+    type Action,
+    type ActionResult,
+    type ActionExample,
+    type HandlerCallback,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    logger,
+} from "@elizaos/core";
+import { isOperator } from "../access";
+import { type AccountInfo, StorageService } from "../clients/storage";
+import { describeStorageError, formatSize } from "../utils";
+
+/**
+ * Describe the account for people, one fact per line
+ */
+const describeAccountInfo = (info: AccountInfo): string => {
+    const unknown = "unknown";
+    let used = info.usedBytes !== undefined ? formatSize(info.usedBytes) : unknown;
+    if (info.usedBytes !== undefined && info.quotaBytes) {
+        used += ` (${(info.usedBytes / info.quotaBytes * 100).toFixed(1)}% of the quota)`;
+    }
+    return [
+        `MEFS account ${info.address}`,
+        `- Used: ${used}`,
+        `- Quota: ${info.quotaBytes !== undefined ? formatSize(info.quotaBytes) : unknown}`,
+        `- Available: ${info.availableBytes !== undefined ? formatSize(info.availableBytes) : unknown}`,
+        `- Files: ${info.objectCount ?? unknown}`,
+        `- Balance: ${info.balance ?? unknown}`,
+    ].join("\n");
+};
+
+export const accountAction: Action = {
+    name: "STORAGE_ACCOUNT",
+    similes: ["ACCOUNT_INFO", "STORAGE_USAGE", "STORAGE_QUOTA", "STORAGE_BALANCE", "ACCOUNT_BALANCE"],
+    description:
+        "Report the storage used, the number of files, the quota, the storage left and the balance of the agent's MEFS account. Use this action when the user asks how much storage is used or left, or what the balance is.",
+
+    validate: async (runtime: IAgentRuntime,
+        _message: Memory,
+        _state: State | undefined): Promise<boolean> => {
+        // Check if storage service is available
+        const storageService = runtime.getService("storage" as any);
+        return !!storageService;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        _state: State | undefined,
+        _options: Record<string, unknown> = {},
+        callback?: HandlerCallback
+    ): Promise<ActionResult> => {
+        logger.log("Starting STORAGE_ACCOUNT handler...");
+        const reply = async (success: boolean, text: string, values: Record<string, unknown>): Promise<ActionResult> => {
+            await callback?.({ text });
+            return {
+                success,
+                text,
+                data: {
+                    actions: ['STORAGE_ACCOUNT'],
+                },
+                values,
+            };
+        };
+
+        const storageService = runtime.getService(
+            "storage" as any
+        ) as StorageService;
+        if (!storageService) {
+            return reply(false, "Storage service is not available in runtime.", {
+                error: "Storage service not available in runtime",
+            });
+        }
+
+        try {
+            await storageService.initializeStorage();
+            // The balance and usage of the agent's wallet are not for everyone
+            if (!await isOperator(runtime, storageService, message)) {
+                return reply(false, "Sorry, only the operators of this agent can see the account details.", {
+                    error: "The requester is not an operator",
+                });
+            }
+            const info = await storageService.getAccountInfo();
+            return reply(true, describeAccountInfo(info), { account: info });
+        } catch (error: any) {
+            logger.error(error, "Error getting MEFS account info");
+            return reply(false, describeStorageError(error, "get the account details"), {
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "How much storage do we have left?",
+                },
+            },
+            {
+                name: "{{agent}}",
+                content: {
+                    text: "Let me check the MEFS account.",
+                    action: "STORAGE_ACCOUNT",
+                },
+            },
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "What's the balance of the storage wallet?",
+                },
+            },
+            {
+                name: "{{agent}}",
+                content: {
+                    text: "Checking the account balance.",
+                    action: "STORAGE_ACCOUNT",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+} as Action;
@@ -0,0 +1,210 @@
+import {
+    type Action,
+    type ActionResult,
+    type ActionExample,
+    type HandlerCallback,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    logger,
+} from "@elizaos/core";
+import { StorageService } from "../clients/storage";
+import type { UploadRecord } from "../clients/registry";
+import {
+    describeStorageError,
+    formatFileTable,
+    getCIDsFromMessage,
+} from "../utils";
+
+/** How long a deletion waits for the user's confirmation, in milliseconds */
+const CONFIRMATION_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Deletion waiting for the user's confirmation
+ */
+type PendingDeletion = {
+    files: UploadRecord[];
+    createdAt: number;
+};
+
+const getPendingCacheKey = (message: Memory): string => `mefs:delete:pending:${message.roomId}:${message.entityId}`;
+
+const isConfirmation = (text: string): boolean =>
+    /^\s*(?:yes|y|yep|yeah|sure|ok(?:ay)?|confirm(?:ed)?|do it|go ahead|delete (?:it|them))\b/i.test(text);
+
+const isCancellation = (text: string): boolean =>
+    /^\s*(?:no|n|nope|cancel|stop|abort|don'?t|keep (?:it|them))\b/i.test(text);
+
+export const deleteAction: Action = {
+    name: "STORAGE_DELETE",
+    similes: ["DELETE", "DELETE_FILE", "REMOVE_FILE", "UNPIN", "UNPIN_FILE", "CONFIRM_DELETE"],
+    description:
+        "Delete files the user uploaded from MEFS storage, by CID. The user is asked to confirm first; also use this action when the user replies to that question, confirming (yes) or cancelling (no) the deletion.",
+
+    validate: async (runtime: IAgentRuntime,
+        _message: Memory,
+        _state: State | undefined): Promise<boolean> => {
+        // Check if storage service is available
+        const storageService = runtime.getService("storage" as any);
+        return !!storageService;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        _state: State | undefined,
+        _options: Record<string, unknown> = {},
+        callback?: HandlerCallback
+    ): Promise<ActionResult> => {
+        logger.log("Starting STORAGE_DELETE handler...");
+        const reply = async (success: boolean, text: string, values: Record<string, unknown>): Promise<ActionResult> => {
+            await callback?.({ text });
+            return {
+                success,
+                text,
+                data: {
+                    actions: ['STORAGE_DELETE'],
+                },
+                values,
+            };
+        };
+
+        const storageService = runtime.getService(
+            "storage" as any
+        ) as StorageService;
+        if (!storageService) {
+            return reply(false, "Storage service is not available in runtime.", {
+                error: "Storage service not available in runtime",
+            });
+        }
+
+        const text = message?.content?.text || "";
+        const cacheKey = getPendingCacheKey(message);
+        try {
+            await storageService.initializeStorage();
+
+            const cids = getCIDsFromMessage(message);
+            if (cids.length === 0) {
+                const cached = await runtime.getCache<PendingDeletion>(cacheKey);
+                const pending = cached && Date.now() - cached.createdAt < CONFIRMATION_TTL_MS ? cached : null;
+                if (!pending) {
+                    return reply(false, "Please give the CID of the file you want to delete.", {
+                        error: "No CID values provided",
+                    });
+                }
+                if (isCancellation(text)) {
+                    await runtime.deleteCache(cacheKey);
+                    return reply(true, "OK, nothing was deleted.", { deletedFiles: [] });
+                }
+                if (!isConfirmation(text)) {
+                    return reply(false, `Please reply "yes" to delete ${pending.files.length} file(s), or "no" to keep them.`, {
+                        error: "Deletion not confirmed",
+                    });
+                }
+
+                await runtime.deleteCache(cacheKey);
+                const deleted: string[] = [];
+                const failed: Array<{ cid: string; reason: string }> = [];
+                for (const file of pending.files) {
+                    try {
+                        await storageService.deleteFile(file.cid, { deletedBy: message.entityId });
+                        deleted.push(file.cid);
+                    } catch (error: any) {
+                        logger.error(error, `Failed to delete file ${file.cid}`);
+                        failed.push({ cid: file.cid, reason: describeStorageError(error, "delete the file") });
+                    }
+                }
+
+                let resultText = deleted.length > 0
+                    ? `Deleted ${deleted.length} file(s) from MEFS:\n${deleted.join("\n")}`
+                    : "No file was deleted.";
+                if (failed.length > 0) {
+                    resultText += `\n\nFailed to delete the following file(s):\n${failed.map((file) => `${file.cid}: ${file.reason}`).join("\n")}`;
+                }
+                return reply(deleted.length > 0, resultText, {
+                    deletedFiles: deleted,
+                    failedFiles: failed,
+                });
+            }
+
+            // Only the uploader of a file may delete it, and only when no one
+            // else uploaded the same content, which would be deleted with it
+            const owned: UploadRecord[] = [];
+            const refused: Array<{ cid: string; reason: string }> = [];
+            for (const cid of cids) {
+                const records = await storageService.uploads.query({ cid, includeDeleted: true });
+                const live = records.filter((record) => record.deletedAt === undefined);
+                const own = live.find((record) => record.entityId === message.entityId);
+                const shared = live.some((record) => record.entityId !== message.entityId);
+                if (own && !shared) {
+                    owned.push(own);
+                } else {
+                    refused.push({
+                        cid,
+                        reason: own
+                            ? "someone else uploaded the same file too"
+                            : live.length > 0
+                                ? "uploaded by someone else"
+                                : records.length > 0 ? "already deleted" : "no upload of it is recorded",
+                    });
+                }
+            }
+            const refusedText = refused.length > 0
+                ? `I can only delete files that only you uploaded and that are still stored, so I won't delete:\n${refused.map((file) => `${file.cid}: ${file.reason}`).join("\n")}`
+                : "";
+            if (owned.length === 0) {
+                return reply(false, refusedText, {
+                    error: "The requester does not own the files",
+                    refusedFiles: refused,
+                });
+            }
+
+            await runtime.setCache<PendingDeletion>(cacheKey, { files: owned, createdAt: Date.now() });
+            let confirmText = `You are about to delete these file(s) from MEFS. This cannot be undone.\n\n${formatFileTable(owned)}\n\nReply "yes" to delete them, or "no" to keep them.`;
+            if (refusedText) {
+                confirmText += `\n\n${refusedText}`;
+            }
+            return reply(true, confirmText, {
+                awaitingConfirmation: true,
+                cids: owned.map((file) => file.cid),
+                refusedFiles: refused,
+            });
+        } catch (error: any) {
+            logger.error(error, "Error during deletion of MEFS files");
+            return reply(false, describeStorageError(error, "delete the file(s)"), {
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "Delete QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco, I uploaded it by mistake",
+                },
+            },
+            {
+                name: "{{agent}}",
+                content: {
+                    text: "Are you sure? Deleting that file cannot be undone.",
+                    action: "STORAGE_DELETE",
+                },
+            },
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "yes",
+                },
+            },
+            {
+                name: "{{agent}}",
+                content: {
+                    text: "Deleting the file...",
+                    action: "STORAGE_DELETE",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+} as Action;
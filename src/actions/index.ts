@@ -1,2 +1,7 @@
 export * from "./upload.ts";
-export * from "./retrieve.ts";
\ No newline at end of file
+export * from "./retrieve.ts";
+export * from "./keys.ts";
+export * from "./list.ts";
+export * from "./delete.ts";
+export * from "./info.ts";
+export * from "./account.ts";
@@ -0,0 +1,172 @@
+import {
+    type Action,
+    type ActionResult,
+    type ActionExample,
+    type HandlerCallback,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    logger,
+} from "@elizaos/core";
+import { type FileStat, StorageService } from "../clients/storage";
+import { resolveFilesFromMessage } from "../resolve";
+import {
+    describeStorageError,
+    formatDate,
+    formatFileTable,
+    formatSize,
+    getCIDsFromMessage,
+} from "../utils";
+
+/**
+ * Describe a file for people, one fact per line
+ */
+const describeFileStat = (stat: FileStat): string => {
+    const unknown = "unknown";
+    let size = stat.size !== undefined ? formatSize(stat.size) : unknown;
+    if (stat.storedSize !== undefined && stat.storedSize !== stat.size) {
+        size += ` (${formatSize(stat.storedSize)} stored)`;
+    }
+    const replication = stat.replication
+        ? `${stat.replication.status}${stat.replication.replicas !== undefined ? `, ${stat.replication.replicas} copies` : ""}`
+        : unknown;
+    return [
+        stat.filename ? `${stat.filename} (${stat.cid})` : stat.cid,
+        `- Size: ${size}`,
+        `- Type: ${stat.contentType ?? unknown}`,
+        `- Visibility: ${stat.public === undefined ? unknown : stat.public ? "public" : "private"}`,
+        `- Owner: ${stat.owner ?? unknown}`,
+        `- Uploaded: ${stat.createdAt !== undefined ? formatDate(stat.createdAt) : unknown}`,
+        `- Replication: ${replication}`,
+    ].join("\n");
+};
+
+export const infoAction: Action = {
+    name: "STORAGE_INFO",
+    similes: ["FILE_INFO", "STAT", "STAT_FILE", "FILE_DETAILS", "FILE_SIZE", "FILE_METADATA"],
+    description:
+        "Get the size, type, visibility (public or private), owner, upload time and replication status of files stored on MEFS, without downloading them. Use this action when the user asks about a file, e.g. how big it is or whether it is public, by CID or by name.",
+
+    validate: async (runtime: IAgentRuntime,
+        _message: Memory,
+        _state: State | undefined): Promise<boolean> => {
+        // Check if storage service is available
+        const storageService = runtime.getService("storage" as any);
+        return !!storageService;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        _state: State | undefined,
+        _options: Record<string, unknown> = {},
+        callback?: HandlerCallback
+    ): Promise<ActionResult> => {
+        logger.log("Starting STORAGE_INFO handler...");
+        const reply = async (success: boolean, text: string, values: Record<string, unknown>): Promise<ActionResult> => {
+            await callback?.({ text });
+            return {
+                success,
+                text,
+                data: {
+                    actions: ['STORAGE_INFO'],
+                },
+                values,
+            };
+        };
+
+        const storageService = runtime.getService(
+            "storage" as any
+        ) as StorageService;
+        if (!storageService) {
+            return reply(false, "Storage service is not available in runtime.", {
+                error: "Storage service not available in runtime",
+            });
+        }
+
+        try {
+            await storageService.initializeStorage();
+
+            // Without a CID, look for the files by name, type or date among
+            // the recorded uploads
+            let cids = getCIDsFromMessage(message);
+            if (cids.length === 0) {
+                const resolution = await resolveFilesFromMessage(runtime, storageService, message);
+                if (resolution.status === "none") {
+                    return reply(false, "I couldn't find a CID, or an uploaded file matching your request. Please give the CID or the name of the file.", {
+                        error: "No CID values provided",
+                    });
+                }
+                if (resolution.status === "ambiguous") {
+                    return reply(false, `Several files match your request. Which one do you mean? Reply with its number or CID.\n\n${formatFileTable(resolution.files)}`, {
+                        error: "Several files match the request",
+                        candidates: resolution.files.map((file) => ({
+                            cid: file.cid,
+                            filename: file.filename,
+                            uploadedAt: file.uploadedAt,
+                        })),
+                    });
+                }
+                cids = resolution.files.map((file) => file.cid);
+            }
+
+            const files: FileStat[] = [];
+            const failed: Array<{ cid: string; reason: string }> = [];
+            for (const cid of cids) {
+                try {
+                    files.push(await storageService.stat(cid));
+                } catch (error: any) {
+                    logger.error(error, `Failed to get metadata of file ${cid}`);
+                    failed.push({ cid, reason: describeStorageError(error, "get the file details") });
+                }
+            }
+
+            let text = files.map(describeFileStat).join("\n\n");
+            if (failed.length > 0) {
+                text += `${text ? "\n\n" : ""}Failed to get the details of the following file(s):\n${failed.map((file) => `${file.cid}: ${file.reason}`).join("\n")}`;
+            }
+            return reply(files.length > 0, text, {
+                files,
+                failedFiles: failed,
+            });
+        } catch (error: any) {
+            logger.error(error, "Error getting MEFS file metadata");
+            return reply(false, describeStorageError(error, "get the file details"), {
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "How big is QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco?",
+                },
+            },
+            {
+                name: "{{agent}}",
+                content: {
+                    text: "Let me look that file up.",
+                    action: "STORAGE_INFO",
+                },
+            },
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "Is the report I uploaded yesterday public?",
+                },
+            },
+            {
+                name: "{{agent}}",
+                content: {
+                    text: "Checking the details of your report.",
+                    action: "STORAGE_INFO",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+} as Action;
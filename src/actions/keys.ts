@@ -0,0 +1,244 @@
+import {
+    type Action,
+    type ActionResult,
+    type ActionExample,
+    type HandlerCallback,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    logger,
+} from "@elizaos/core";
+import { isOperator } from "../access";
+import { StorageService } from "../clients/storage";
+import { MefsError } from "../errors";
+import {
+    describeStorageError,
+    getCIDsFromMessage,
+    getKeyBundleFromMessage,
+    getPassphraseFromMessage,
+} from "../utils";
+
+type KeyOperation = "rotate" | "export" | "import";
+
+/**
+ * Find out which key operation the user asked for
+ */
+const getKeyOperation = (message: Memory, options: Record<string, unknown>): KeyOperation | null => {
+    if (options.operation === "rotate" || options.operation === "export" || options.operation === "import") {
+        return options.operation;
+    }
+    const text = message?.content?.text || "";
+    if (getKeyBundleFromMessage(message) || /\bimport\b/i.test(text)) {
+        return "import";
+    }
+    if (/\bexport\b/i.test(text)) {
+        return "export";
+    }
+    if (/\b(rotate|rotation|re-?key)\b/i.test(text)) {
+        return "rotate";
+    }
+    return null;
+};
+
+export const keysAction: Action = {
+    name: "STORAGE_KEYS",
+    similes: [
+        "ROTATE_KEY",
+        "ROTATE_FILE_KEY",
+        "EXPORT_KEYS",
+        "EXPORT_FILE_KEYS",
+        "IMPORT_KEYS",
+        "IMPORT_FILE_KEYS",
+    ],
+    description:
+        "Manage the keys of private files uploaded to MEFS. Use this action when the user wants to rotate the key of a file (by CID), export all keys protected with a passphrase, or import keys from an exported bundle.",
+
+    validate: async (runtime: IAgentRuntime,
+        _message: Memory,
+        _state: State | undefined): Promise<boolean> => {
+        // Check if storage service is available
+        const storageService = runtime.getService("storage" as any);
+        return !!storageService;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        _state: State | undefined,
+        _options: Record<string, unknown> = {},
+        callback?: HandlerCallback
+    ): Promise<ActionResult> => {
+        logger.log("Starting STORAGE_KEYS handler...");
+        const fail = async (text: string, error: string): Promise<ActionResult> => {
+            await callback?.({ text });
+            return {
+                success: false,
+                text,
+                data: {
+                    actions: ['STORAGE_KEYS'],
+                },
+                values: {
+                    error,
+                },
+            };
+        };
+
+        const operation = getKeyOperation(message, _options);
+        if (!operation) {
+            return fail(
+                "Do you want to rotate the key of a file, export your keys or import keys? For a rotation, please give the CID of the file.",
+                "No key operation requested"
+            );
+        }
+
+        const storageService = runtime.getService(
+            "storage" as any
+        ) as StorageService;
+        if (!storageService) {
+            return fail("Storage service is not available in runtime.", "Storage service not available in runtime");
+        }
+
+        try {
+            await storageService.initializeStorage();
+
+            let text: string;
+            let values: Record<string, unknown>;
+            if (operation === "rotate") {
+                const cids = getCIDsFromMessage(message);
+                if (cids.length === 0) {
+                    return fail("Please give the CID of the file whose key should be rotated.", "No CID values provided");
+                }
+
+                const rotated: Array<{ cid: string; newCid: string }> = [];
+                const failed: Array<{ cid: string; reason: string }> = [];
+                for (const cid of cids) {
+                    // Only the uploader of a file may rotate its key
+                    const [own] = await storageService.uploads.query({ cid, entityId: message.entityId, limit: 1 });
+                    if (!own) {
+                        failed.push({ cid, reason: "only the user who uploaded it can rotate its key" });
+                        continue;
+                    }
+                    try {
+                        rotated.push({ cid, newCid: await storageService.rotateFileKey(cid) });
+                    } catch (error: any) {
+                        logger.error(error, `Failed to rotate key of file ${cid}`);
+                        failed.push({ cid, reason: describeStorageError(error, "rotate the key") });
+                    }
+                }
+                if (rotated.length === 0) {
+                    return fail(
+                        `Failed to rotate the key of the given file(s):\n${failed.map((file) => `${file.cid}: ${file.reason}`).join("\n")}`,
+                        "Failed to rotate keys"
+                    );
+                }
+
+                text = `Rotated the key of ${rotated.length} file(s). Each file was uploaded again under a new key, and the copy under the old key was deleted:\n`
+                    + rotated.map((file) => `${file.cid} -> ${file.newCid}`).join("\n");
+                if (failed.length > 0) {
+                    text += `\n\nFailed to rotate the key of the following file(s):\n${failed.map((file) => `${file.cid}: ${file.reason}`).join("\n")}`;
+                }
+                values = { rotatedFiles: rotated };
+            } else {
+                // Keys of every user's files pass through an export or import
+                if (!await isOperator(runtime, storageService, message)) {
+                    return fail(
+                        `Sorry, only the operators of this agent can ${operation} keys.`,
+                        "The requester is not an operator"
+                    );
+                }
+
+                const passphrase = (typeof _options.passphrase === "string" && _options.passphrase)
+                    || getPassphraseFromMessage(message);
+                if (!passphrase) {
+                    return fail(
+                        `Please give the passphrase that ${operation === "export" ? "will protect" : "protects"} the keys, e.g. passphrase "correct horse battery staple".`,
+                        "No passphrase provided"
+                    );
+                }
+
+                if (operation === "export") {
+                    const { bundle, count } = await storageService.keys.exportKeys(passphrase);
+                    text = `Exported ${count} key(s). Keep this bundle and its passphrase somewhere safe:\n\n${bundle}`;
+                    values = { keyCount: count };
+                } else {
+                    const bundle = (typeof _options.bundle === "string" && _options.bundle)
+                        || getKeyBundleFromMessage(message);
+                    if (!bundle) {
+                        return fail("Please paste the key bundle to import.", "No key bundle provided");
+                    }
+                    const count = await storageService.keys.importKeys(bundle, passphrase);
+                    text = `Imported ${count} key(s).`;
+                    values = { keyCount: count };
+                }
+            }
+
+            await callback?.({ text });
+            return {
+                success: true,
+                text,
+                data: {
+                    actions: ['STORAGE_KEYS'],
+                },
+                values,
+            };
+        } catch (error: any) {
+            logger.error(error, `Error during ${operation} of MEFS keys`);
+            const reason = error instanceof Error ? error.message : String(error);
+            // Key store failures, like a wrong passphrase, are worth showing as is
+            return fail(
+                error instanceof MefsError
+                    ? describeStorageError(error, `${operation} the keys`)
+                    : `Sorry, failed to ${operation} the keys: ${reason}`,
+                reason
+            );
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "Rotate the key of QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco",
+                },
+            },
+            {
+                name: "{{agent}}",
+                content: {
+                    text: "I'll upload that file again under a new key. Please wait...",
+                    action: "STORAGE_KEYS",
+                },
+            },
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "Export my file keys with passphrase \"correct horse battery staple\"",
+                },
+            },
+            {
+                name: "{{agent}}",
+                content: {
+                    text: "I'll export your keys protected with that passphrase.",
+                    action: "STORAGE_KEYS",
+                },
+            },
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "Import these keys: mefskeys1:eyJzYWx0IjoiIn0= passphrase \"correct horse battery staple\"",
+                },
+            },
+            {
+                name: "{{agent}}",
+                content: {
+                    text: "I'll import those keys.",
+                    action: "STORAGE_KEYS",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+} as Action;
@@ -0,0 +1,199 @@
+import {
+    type Action,
+    type ActionResult,
+    type ActionExample,
+    type HandlerCallback,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    logger,
+} from "@elizaos/core";
+import { StorageService } from "../clients/storage";
+import {
+    type ListFilters,
+    describeStorageError,
+    formatDate,
+    formatFileTable,
+    getListFiltersFromMessage,
+} from "../utils";
+
+/**
+ * Describe which files a listing shows, e.g. "Your images named report"
+ */
+const describeListFilters = (filters: ListFilters): string => {
+    const kind = filters.contentType
+        ? `${filters.contentType.endsWith("/") ? filters.contentType.slice(0, -1) : filters.contentType} files`
+        : "files";
+    let text = filters.scope === "mine" ? `Your ${kind}` : `${kind[0].toUpperCase()}${kind.slice(1)} uploaded in this room`;
+    if (filters.name) {
+        text += ` named like "${filters.name}"`;
+    }
+    if (filters.since !== undefined) {
+        text += ` since ${formatDate(filters.since)}`;
+    }
+    if (filters.until !== undefined) {
+        text += ` until ${formatDate(filters.until)}`;
+    }
+    return text;
+};
+
+export const listAction: Action = {
+    name: "STORAGE_LIST",
+    similes: ["LIST_FILES", "LIST_UPLOADS", "SHOW_FILES", "MY_FILES", "STORED_FILES"],
+    description:
+        "List the files uploaded to MEFS storage. Use this action when the user asks what files they (or everyone in the room) have saved, optionally of a given type (images, videos, audio, PDFs, text), with a name containing some text, or uploaded in a date range.",
+
+    validate: async (runtime: IAgentRuntime,
+        _message: Memory,
+        _state: State | undefined): Promise<boolean> => {
+        // Check if storage service is available
+        const storageService = runtime.getService("storage" as any);
+        return !!storageService;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        _state: State | undefined,
+        _options: Record<string, unknown> = {},
+        callback?: HandlerCallback
+    ): Promise<ActionResult> => {
+        logger.log("Starting STORAGE_LIST handler...");
+        const fail = async (text: string, error: string): Promise<ActionResult> => {
+            await callback?.({ text });
+            return {
+                success: false,
+                text,
+                data: {
+                    actions: ['STORAGE_LIST'],
+                },
+                values: {
+                    error,
+                },
+            };
+        };
+
+        const storageService = runtime.getService(
+            "storage" as any
+        ) as StorageService;
+        if (!storageService) {
+            return fail("Storage service is not available in runtime.", "Storage service not available in runtime");
+        }
+
+        const filters = getListFiltersFromMessage(message, _options);
+        try {
+            await storageService.initializeStorage();
+
+            const query = {
+                entityId: filters.scope === "mine" ? message.entityId : undefined,
+                roomId: filters.scope === "room" ? message.roomId : undefined,
+                name: filters.name,
+                contentType: filters.contentType,
+                since: filters.since,
+                until: filters.until,
+            };
+            const getPage = (page: number) => storageService.uploads.queryWithTotal({
+                ...query,
+                limit: filters.pageSize,
+                offset: (page - 1) * filters.pageSize,
+            });
+            let { records: files, total } = await getPage(filters.page);
+            const pageCount = Math.max(1, Math.ceil(total / filters.pageSize));
+            // A page past the end shows the last one
+            const page = Math.min(filters.page, pageCount);
+            if (page !== filters.page) {
+                ({ records: files, total } = await getPage(page));
+            }
+
+            let text: string;
+            if (total === 0) {
+                text = `${describeListFilters(filters)}: none found.`;
+            } else {
+                text = `${describeListFilters(filters)} (${total}):\n\n`
+                    + formatFileTable(files, (page - 1) * filters.pageSize + 1);
+                if (pageCount > 1) {
+                    text += `\n\nPage ${page} of ${pageCount}.`;
+                    if (page < pageCount) {
+                        text += ` Ask for page ${page + 1} to see more.`;
+                    }
+                }
+            }
+
+            await callback?.({ text });
+            return {
+                success: true,
+                text,
+                data: {
+                    actions: ['STORAGE_LIST'],
+                },
+                values: {
+                    files: files.map((file) => ({
+                        cid: file.cid,
+                        filename: file.filename,
+                        size: file.size,
+                        contentType: file.contentType,
+                        public: file.public,
+                        uploadedAt: file.uploadedAt,
+                    })),
+                    total,
+                    page,
+                    pageCount,
+                },
+            };
+        } catch (error: any) {
+            logger.error(error, "Error listing MEFS files");
+            return fail(
+                describeStorageError(error, "list the stored files"),
+                error instanceof Error ? error.message : String(error)
+            );
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "What files have I saved?",
+                },
+            },
+            {
+                name: "{{agent}}",
+                content: {
+                    text: "Here are the files you uploaded to MEFS.",
+                    action: "STORAGE_LIST",
+                },
+            },
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "Show the images everyone in this room uploaded in the last 7 days",
+                },
+            },
+            {
+                name: "{{agent}}",
+                content: {
+                    text: "Here are the images uploaded in this room over the last week.",
+                    action: "STORAGE_LIST",
+                },
+            },
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "List my files named report, page 2",
+                },
+            },
+            {
+                name: "{{agent}}",
+                content: {
+                    text: "Here is the second page of your files named like \"report\".",
+                    action: "STORAGE_LIST",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+} as Action;
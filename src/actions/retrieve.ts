@@ -5,11 +5,82 @@ import {
     type HandlerCallback,
     type IAgentRuntime,
     type Memory,
+    type Media,
     type State,
+    createUniqueUuid,
+    getUploadsAgentsDir,
     logger,
 } from "@elizaos/core";
+import fs from "fs";
+import path from "path";
+import { CID } from "multiformats/cid";
 import { StorageService } from "../clients/storage";
-import { getCIDsFromMessage } from "../utils";
+import {
+    DEFAULT_MIME_TYPE,
+    detectMimeType,
+    getExtensionForMimeType,
+    getMediaContentType,
+    isTextMimeType,
+} from "../mime";
+import { resolveFilesFromMessage } from "../resolve";
+import {
+    describeStorageError,
+    formatFileTable,
+    getByteRangeFromMessage,
+    getCIDsFromMessage,
+    getPassphraseFromMessage,
+} from "../utils";
+
+/**
+ * Path a retrieved file is saved to in the media directory, so that it can be
+ * sent as an attachment. Files are named after their CID, and the byte range
+ * if only part of the file was retrieved.
+ */
+const getSavedFilePath = (
+    directory: string,
+    cid: string,
+    contentType: string,
+    filename?: string,
+    range?: string
+): string => {
+    const ownExtension = filename ? path.extname(filename) : "";
+    const extension = /^\.[\w-]{1,16}$/.test(ownExtension) ? ownExtension : getExtensionForMimeType(contentType);
+    return path.join(directory, `${cid}${range ? `.${range}` : ""}${extension}`);
+};
+
+/**
+ * Delete the files retrieved to the media directory more than `maxAgeMs`
+ * ago, since they may be decrypted copies of private files. Only files named
+ * after a CID are touched, as the directory may hold other uploads.
+ */
+const pruneRetrievedFiles = async (directory: string, maxAgeMs: number): Promise<void> => {
+    if (maxAgeMs <= 0) {
+        return;
+    }
+    let names: string[];
+    try {
+        names = await fs.promises.readdir(directory);
+    } catch {
+        return;
+    }
+    const cutoff = Date.now() - maxAgeMs;
+    for (const name of names) {
+        try {
+            CID.parse(name.split(".")[0]);
+        } catch {
+            continue;
+        }
+        const filePath = path.join(directory, name);
+        try {
+            const stats = await fs.promises.stat(filePath);
+            if (stats.isFile() && stats.mtimeMs < cutoff) {
+                await fs.promises.rm(filePath, { force: true });
+            }
+        } catch (error: any) {
+            logger.warn(`Failed to delete retrieved file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+};
 
 export const retrieveAction: Action = {
     name: "STORAGE_RETRIEVE",
@@ -35,7 +106,7 @@ export const retrieveAction: Action = {
         "READ_FILE_FROM_CID",
     ],
     description:
-        "Retrieve a file from MEFS storage. Use this action when a user asks you to retrieve a file from MEFS storage based on a CID (Content Identifier).",
+        "Retrieve a file from MEFS storage. Use this action when a user asks you to retrieve a file from MEFS storage based on a CID (Content Identifier), on the name, type or date of a file they uploaded (e.g. the report I uploaded yesterday), or only part of it (e.g. the first 4 KB, bytes 100-200 or page 2). The user may give the password a file was uploaded with.",
 
     validate: async (runtime: IAgentRuntime,
         _message: Memory,
@@ -55,22 +126,7 @@ export const retrieveAction: Action = {
         responses?: Memory[]
     ): Promise<ActionResult> => {
         logger.log("Starting STORAGE_RETRIEVE handler...");
-        const cids = getCIDsFromMessage(message);
-        if (cids.length === 0) {
-            await callback?.({
-                text: "You didn't provide any CID values to retrieve files.",
-            });
-            return {
-                success: false,
-                text: "You didn't provide any CID values to retrieve files.",
-                data: {
-                    actions: ['STORAGE_RETRIEVE'],
-                },
-                values: {
-                    error: "No CID values provided",
-                },
-            };
-        }
+        let cids = getCIDsFromMessage(message);
 
         try {
             logger.log("Retrieving file(s) from MEFS...");
@@ -98,48 +154,153 @@ export const retrieveAction: Action = {
             // 确保存储服务已初始化
             await storageService.initializeStorage();
 
-            const retrievedFiles: Array<{ cid: string; content: string; size: number }> = [];
-            const notFoundFiles: string[] = [];
+            // Without a CID, look for the files by name, type or date among
+            // the recorded uploads
+            if (cids.length === 0) {
+                const resolution = await resolveFilesFromMessage(runtime, storageService, message);
+                if (resolution.status === "none") {
+                    const text = "I couldn't find a CID, or an uploaded file matching your request. Please give the CID or the name of the file.";
+                    await callback?.({ text });
+                    return {
+                        success: false,
+                        text,
+                        data: {
+                            actions: ['STORAGE_RETRIEVE'],
+                        },
+                        values: {
+                            error: "No CID values provided",
+                        },
+                    };
+                }
+                if (resolution.status === "ambiguous") {
+                    const text = `Several files match your request. Which one do you want? Reply with its number or CID.\n\n${formatFileTable(resolution.files)}`;
+                    await callback?.({ text });
+                    return {
+                        success: false,
+                        text,
+                        data: {
+                            actions: ['STORAGE_RETRIEVE'],
+                        },
+                        values: {
+                            error: "Several files match the request",
+                            candidates: resolution.files.map((file) => ({
+                                cid: file.cid,
+                                filename: file.filename,
+                                uploadedAt: file.uploadedAt,
+                            })),
+                        },
+                    };
+                }
+                cids = resolution.files.map((file) => file.cid);
+                logger.info(`Resolved request to CID(s): ${cids.join(", ")}`);
+            }
+
+            const retrievedFiles: Array<{
+                cid: string;
+                size: number;
+                contentType: string;
+                filename?: string;
+                range?: string;
+                /** Where the file was saved, if it is sent as an attachment */
+                path?: string;
+            }> = [];
+            // Text of the files shown in the chat, by CID
+            const inlineTexts = new Map<string, string>();
+            const attachments: Media[] = [];
+            const failedFiles: Array<{ cid: string; reason: string }> = [];
+            // Only part of each file may have been asked for
+            const range = getByteRangeFromMessage(message);
+            const passphrase = getPassphraseFromMessage(message) ?? undefined;
+            const config = storageService.getConfig();
+            const mediaDir = config.MEFS_MEDIA_DIR || path.join(getUploadsAgentsDir(), runtime.agentId);
+            await pruneRetrievedFiles(mediaDir, config.MEFS_MEDIA_MAX_AGE_MS);
 
             for (const cid of cids) {
                 try {
-                    const fileBuffer = await storageService.retrieveFile(cid);
-
-                    // 尝试将文件内容转换为文本
-                    let fileContent: string;
-                    try {
-                        // 尝试作为 UTF-8 文本解码
-                        fileContent = fileBuffer.toString('utf-8');
-                        // 检查是否包含不可打印字符（可能是二进制文件）
-                        if (/[\x00-\x08\x0E-\x1F]/.test(fileContent) && fileBuffer.length > 0) {
-                            // 如果是二进制文件，显示为 base64 或十六进制
-                            fileContent = `[Binary file, size: ${fileBuffer.length} bytes]\nBase64: ${fileBuffer.toString('base64')}`;
+                    // A password given by the user wins, otherwise files
+                    // uploaded by the agent have their key in the key store,
+                    // which only their uploader may use
+                    const records = await storageService.uploads.query({ cid });
+                    let key = passphrase;
+                    if (!key && records.some((record) => record.entityId === message.entityId)) {
+                        key = await storageService.keys.getKey(cid);
+                    }
+                    const filename = records[0]?.filename;
+
+                    const rangeLabel = range ? `${range.start}-${range.end - 1}` : undefined;
+                    let file: { contentType: string; size: number; filename?: string };
+                    // Short texts are shown in the chat, anything else is sent as an attachment
+                    let savedPath: string | undefined;
+                    if (range) {
+                        // A range has no metadata; its type can only be sniffed
+                        // when it starts at the beginning of the file
+                        const content = await storageService.retrieveRange(cid, range.start, range.end, key);
+                        const sniffed = detectMimeType(content);
+                        file = {
+                            contentType: range.start === 0 || sniffed === "text/plain" ? sniffed : DEFAULT_MIME_TYPE,
+                            size: content.length,
+                        };
+                        if (isTextMimeType(file.contentType) && file.size <= config.MEFS_INLINE_TEXT_MAX_BYTES) {
+                            inlineTexts.set(cid, content.toString('utf-8'));
+                        } else {
+                            savedPath = getSavedFilePath(mediaDir, cid, file.contentType, undefined, rangeLabel);
+                            await fs.promises.mkdir(mediaDir, { recursive: true });
+                            await fs.promises.writeFile(savedPath, content);
+                        }
+                    } else {
+                        // Whole files are streamed to disk, and keep the type
+                        // and name MEFS reports unless their first bytes tell otherwise
+                        await fs.promises.mkdir(mediaDir, { recursive: true });
+                        const downloadPath = path.join(mediaDir, cid);
+                        const downloaded = await storageService.retrieveToPath(cid, downloadPath, { key, filename });
+                        file = { ...downloaded, filename: downloaded.filename ?? filename };
+                        if (isTextMimeType(file.contentType) && file.size <= config.MEFS_INLINE_TEXT_MAX_BYTES) {
+                            inlineTexts.set(cid, await fs.promises.readFile(downloadPath, 'utf-8'));
+                            await fs.promises.rm(downloadPath, { force: true });
+                        } else {
+                            savedPath = getSavedFilePath(mediaDir, cid, file.contentType, filename);
+                            await fs.promises.rename(downloadPath, savedPath);
                         }
-                    } catch (error) {
-                        // 如果解码失败，显示为 base64
-                        fileContent = `[Binary file, size: ${fileBuffer.length} bytes]\nBase64: ${fileBuffer.toString('base64')}`;
+                    }
+
+                    if (savedPath) {
+                        attachments.push({
+                            id: createUniqueUuid(runtime, `${cid}:${rangeLabel ?? ""}`),
+                            url: savedPath,
+                            title: file.filename || path.basename(savedPath),
+                            source: "MEFS",
+                            description: `Retrieved from MEFS (CID: ${cid})`,
+                            contentType: getMediaContentType(file.contentType),
+                        });
                     }
 
                     retrievedFiles.push({
                         cid,
-                        content: fileContent,
-                        size: fileBuffer.length
+                        size: file.size,
+                        contentType: file.contentType,
+                        filename: file.filename,
+                        range: rangeLabel,
+                        path: savedPath,
                     });
 
-                    logger.info(`File retrieved successfully. CID: ${cid}, Size: ${fileBuffer.length} bytes`);
+                    logger.info(`File retrieved successfully. CID: ${cid}, Size: ${file.size} bytes`);
                 } catch (error: any) {
                     logger.error(error, `Failed to retrieve file with CID: ${cid}`);
-                    notFoundFiles.push(cid);
+                    failedFiles.push({
+                        cid,
+                        reason: describeStorageError(error, "retrieve the file"),
+                    });
                 }
             }
 
+            const failedList = failedFiles.map((file) => `${file.cid}: ${file.reason}`).join("\n");
             if (retrievedFiles.length === 0) {
                 await callback?.({
-                    text: `No files found for the given CIDs: \n${notFoundFiles.join("\n")}`,
+                    text: `No files found for the given CIDs: \n${failedList}`,
                 });
                 return {
                     success: false,
-                    text: `No files found for the given CIDs: \n${notFoundFiles.join("\n")}`,
+                    text: `No files found for the given CIDs: \n${failedList}`,
                     data: {
                         actions: ['STORAGE_RETRIEVE'],
                     },
@@ -149,19 +310,25 @@ export const retrieveAction: Action = {
                 };
             }
 
-            // 构建响应消息，直接包含文件内容
+            // 构建响应消息，直接包含文本文件内容
             let responseText = `Retrieved ${retrievedFiles.length} file(s) from MEFS:\n\n`;
             retrievedFiles.forEach((file, idx) => {
-                responseText += `=== File ${idx + 1} (CID: ${file.cid}, Size: ${file.size} bytes) ===\n`;
-                responseText += `${file.content}\n\n`;
+                const name = file.filename ? `Name: ${file.filename}, ` : "";
+                responseText += file.range
+                    ? `=== File ${idx + 1} (CID: ${file.cid}, ${name}Bytes: ${file.range}, Size: ${file.size} bytes) ===\n`
+                    : `=== File ${idx + 1} (CID: ${file.cid}, ${name}Type: ${file.contentType}, Size: ${file.size} bytes) ===\n`;
+                responseText += file.path
+                    ? `[Sent as attachment: ${path.basename(file.path)}]\n\n`
+                    : `${inlineTexts.get(file.cid)}\n\n`;
             });
 
-            if (notFoundFiles.length > 0) {
-                responseText += `\nFailed to retrieve files for the following CIDs: \n${notFoundFiles.join("\n")}`;
+            if (failedFiles.length > 0) {
+                responseText += `\nFailed to retrieve files for the following CIDs: \n${failedList}`;
             }
 
             await callback?.({
                 text: responseText,
+                attachments: attachments.length > 0 ? attachments : undefined,
             });
             logger.log("File(s) retrieved successfully!");
             return {
@@ -176,12 +343,13 @@ export const retrieveAction: Action = {
             };
         } catch (error: any) {
             logger.error(error, "Error during retrieve file(s) from MEFS");
+            const errorText = describeStorageError(error, "retrieve file(s) from MEFS");
             await callback?.({
-                text: `Error during retrieve file(s) from MEFS: ${error instanceof Error ? error.message : String(error)}`,
+                text: errorText,
             });
             return {
                 success: false,
-                text: `Error during retrieve file(s) from MEFS: ${error instanceof Error ? error.message : String(error)}`,
+                text: errorText,
                 data: {
                     actions: ['STORAGE_RETRIEVE'],
                 },
@@ -221,5 +389,33 @@ export const retrieveAction: Action = {
                 },
             },
         ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "Show me the first 4 KB of QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco",
+                },
+            },
+            {
+                name: "{{agent}}",
+                content: {
+                    text: "I'll fetch the first 4 KB of that file. Please wait...",
+                },
+            },
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "Get back the report I uploaded yesterday",
+                },
+            },
+            {
+                name: "{{agent}}",
+                content: {
+                    text: "I'll look for that report among your uploads. Please wait...",
+                },
+            },
+        ],
     ] as ActionExample[][],
 } as Action;
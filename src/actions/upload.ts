@@ -1,4 +1,5 @@
 import { logger } from "@elizaos/core";
+import path from "path";
 import {
     type Action,
     type ActionResult,
@@ -8,15 +9,52 @@ import {
     type Memory,
     type State,
 } from "@elizaos/core";
-import fs from "fs";
 import { validateStorageClientConfig } from "../schemes";
-import { StorageService } from "../clients/storage";
+import { StorageService, type UploadOptions } from "../clients/storage";
+import type { UploadSource } from "../clients/registry";
+import {
+    type UploadPreferences,
+    describeStorageError,
+    getUploadPreferencesFromMessage,
+} from "../utils";
+
+/**
+ * Name of one of the uploaded files, when the user chose a name. Several
+ * files are numbered, e.g. report-1.pdf and report-2.pdf.
+ */
+const getTargetFilename = (
+    target: string | undefined,
+    index: number,
+    count: number
+): string | undefined => {
+    if (!target || count <= 1) {
+        return target;
+    }
+    const extension = path.extname(target);
+    return `${target.slice(0, target.length - extension.length)}-${index + 1}${extension}`;
+};
+
+/**
+ * Confirm the options a file was uploaded with
+ */
+const describeUploadPreferences = (preferences: UploadPreferences): string => {
+    const lines = [`Visibility: ${preferences.public ? "public" : "private"}`];
+    if (!preferences.public) {
+        lines.push(preferences.passphrase
+            ? "Protection: your password (not kept by the agent, so give it again to retrieve the file)"
+            : "Protection: a random key, kept by the agent");
+    }
+    if (preferences.filename) {
+        lines.push(`Name: ${preferences.filename}`);
+    }
+    return lines.join("\n");
+};
 
 export const uploadAction: Action = {
     name: "STORAGE_UPLOAD",
     similes: ["UPLOAD", "STORE", "SAVE", "PUT", "PIN"],
     description:
-        "Use this action when the user wants to upload a file to MEFS storage.",
+        "Use this action when the user wants to upload a file to MEFS storage. Files are private unless the user asks for a public upload; the user may also choose a password and a file name.",
 
     validate: async (
         runtime: IAgentRuntime,
@@ -60,9 +98,28 @@ export const uploadAction: Action = {
             };
         }
 
+        const preferences = getUploadPreferencesFromMessage(message, _options);
+        if (preferences.public && preferences.passphrase) {
+            const text = "A public file can't be protected with a password. Please choose either a public upload or a password.";
+            await callback?.({
+                text,
+                action: null,
+            });
+            return {
+                success: false,
+                text,
+                data: {
+                    actions: ['STORAGE_UPLOAD'],
+                },
+                values: {
+                    error: "Public upload with a passphrase",
+                },
+            };
+        }
+
         if (callback) {
             await callback({
-                text: "OK! Uploading file(s) to MEFS...",
+                text: `OK! Uploading file(s) to MEFS (${preferences.public ? "public" : "private"})...`,
                 action: null,
             });
         }
@@ -95,22 +152,49 @@ export const uploadAction: Action = {
             await storageService.initializeStorage();
 
             const cidResults: string[] = [];
+            const fileCount = (attachments?.length || 0)
+                + (responses || []).filter((response) => response.content?.text).length;
+            // Upload one file with the options the user asked for
+            const upload = async (
+                source: UploadSource,
+                send: (options: UploadOptions) => Promise<string>
+            ): Promise<string> => {
+                // A private file is protected with the user's passphrase, or
+                // gets its own random key kept in the key store. Passphrases
+                // are never stored.
+                return send({
+                    public: preferences.public,
+                    key: preferences.public ? undefined : preferences.passphrase,
+                    generateKey: !preferences.public && !preferences.passphrase,
+                    context: {
+                        entityId: message.entityId,
+                        roomId: message.roomId,
+                        worldId: message.worldId,
+                        source,
+                    },
+                });
+            };
+
             // 上传 attachments
             for (const attached of attachments || []) {
                 try {
-                    const fileContent = fs.readFileSync(attached.url);
-                    const filename = attached.title || attached.url.split('/').pop() || 'file';
+                    const filename = getTargetFilename(
+                        preferences.filename,
+                        cidResults.length,
+                        fileCount
+                    ) || attached.title || undefined;
 
-                    const cid = await storageService.uploadFile(
-                        fileContent,
+                    // Local files and downloads are streamed instead of being
+                    // loaded into memory
+                    const cid = await upload("attachment", (options) => storageService.uploadAttachment(attached.url, {
+                        ...options,
                         filename,
-                        false // Do not make the file public
-                    );
+                    }));
 
                     cidResults.push(cid);
                     logger.info(`File uploaded with CID: ${cid}`);
                 } catch (error: any) {
-                    logger.error(error, `Error processing file: ${attached.title || attached.url}`);
+                    logger.error(error, `Error processing file: ${attached.title || attached.url.slice(0, 100)}`);
                     throw error;
                 }
             }
@@ -122,13 +206,17 @@ export const uploadAction: Action = {
                         try {
                             const textContent = response.content.text;
                             const textBuffer = Buffer.from(textContent, 'utf-8');
-                            const filename = `response_${Date.now()}.txt`;
+                            const filename = getTargetFilename(
+                                preferences.filename,
+                                cidResults.length,
+                                fileCount
+                            ) || `response_${Date.now()}.txt`;
 
-                            const cid = await storageService.uploadFile(
+                            const cid = await upload("response", (options) => storageService.uploadFile(
                                 textBuffer,
                                 filename,
-                                false // Do not make the file public
-                            );
+                                options
+                            ));
 
                             cidResults.push(cid);
                             logger.info(`Response text uploaded with CID: ${cid}`);
@@ -142,33 +230,38 @@ export const uploadAction: Action = {
 
             const cidList = cidResults.join(", ");
             logger.info(`Uploaded ${cidResults.length} file(s) to MEFS. CIDs: ${cidList}`);
+            const resultText = `File(s) uploaded to MEFS successfully!\n\n${describeUploadPreferences(preferences)}\n\nFile CIDs:\n${cidResults.map((cid, idx) => `File ${idx + 1}: ${cid}`).join("\n")}`;
             await callback?.({
-                text: `File(s) uploaded to MEFS successfully!\n\nFile CIDs:\n${cidResults.map((cid, idx) => `File ${idx + 1}: ${cid}`).join("\n")}`,
+                text: resultText,
                 action: null,
             });
 
             logger.success("File(s) uploaded to MEFS successfully");
             return {
                 success: true,
-                text: `File(s) uploaded to MEFS successfully!\n\nFile CIDs:\n${cidResults.map((cid, idx) => `File ${idx + 1}: ${cid}`).join("\n")}`,
+                text: resultText,
                 data: {
                     actions: ['STORAGE_UPLOAD'],
                 },
                 values: {
                     cidList: cidList,
+                    public: preferences.public,
+                    passphraseProtected: !!preferences.passphrase && !preferences.public,
+                    filename: preferences.filename,
                 },
             };
         } catch (error: any) {
             logger.error(error, "Error uploading file(s) to MEFS");
+            const errorText = describeStorageError(error, "upload file(s) to MEFS");
             await callback?.({
-                text: "Sorry, failed to upload file(s) to MEFS. Please try again later.",
+                text: errorText,
                 content: {
                     error: error instanceof Error ? error.message : String(error),
                 },
             });
             return {
                 success: false,
-                text: "Sorry, failed to upload file(s) to MEFS. Please try again later.",
+                text: errorText,
                 data: {
                     actions: ['STORAGE_UPLOAD'],
                 },
@@ -290,5 +383,35 @@ export const uploadAction: Action = {
                 },
             },
         ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "upload this publicly as report.pdf",
+                },
+            },
+            {
+                name: "{{agent}}",
+                content: {
+                    text: "I'll upload that file to MEFS as a public file named report.pdf.",
+                    action: "STORAGE_UPLOAD",
+                },
+            },
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "save it with password \"blue whale\"",
+                },
+            },
+            {
+                name: "{{agent}}",
+                content: {
+                    text: "I'll upload that file to MEFS, protected with your password.",
+                    action: "STORAGE_UPLOAD",
+                },
+            },
+        ],
     ] as ActionExample[][],
 } as Action;
@@ -0,0 +1,342 @@
+import type { LookupAddress } from "dns";
+import { lookup } from "dns/promises";
+import fs from "fs";
+import http, { type IncomingMessage } from "http";
+import https from "https";
+import { BlockList, type LookupFunction, isIP } from "net";
+import path from "path";
+import { Readable } from "stream";
+import { fileURLToPath } from "url";
+import zlib from "zlib";
+import { MefsAbortError, MefsAttachmentError } from "./errors";
+import { getFilenameFromContentDisposition, sanitizeFilename } from "./utils";
+
+/**
+ * Content of an attachment, in the form it is best uploaded from
+ */
+export type AttachmentSource =
+    /** A file on disk, which can be reopened and uploaded in resumable chunks */
+    | { type: "file"; path: string; filename: string }
+    /** Content decoded from a data URI */
+    | { type: "buffer"; content: Buffer; filename?: string; contentType?: string }
+    /** A download in progress, which can only be read once */
+    | { type: "stream"; content: Readable; size?: number; filename?: string; contentType?: string };
+
+/**
+ * Limits applied while loading attachments
+ */
+export type AttachmentLimits = {
+    /** Largest download or data URI accepted, in bytes */
+    maxBytes: number;
+    /** Time allowed for a download, from the request to the last byte */
+    timeoutMs: number;
+    /** Directory local files have to be in */
+    localDir: string;
+    /** Cancels the download when aborted */
+    signal?: AbortSignal;
+};
+
+/** Redirects followed by a download */
+const MAX_REDIRECTS = 5;
+
+/**
+ * Addresses downloads must not reach: loopback, private, link-local
+ * (including cloud metadata services), shared, multicast and reserved ranges
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+    ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+    ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+    ["::", 128], ["::1", 128], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Open an attachment given by a local path, a `file://` URL, an `http(s)://`
+ * URL or a `data:` URI
+ * @param url - location of the attachment, as found in `attachment.url`
+ * @param limits - size and time limits of downloads and data URIs
+ * @throws MefsAttachmentError if the attachment cannot be loaded
+ */
+export async function openAttachment(url: string, limits: AttachmentLimits): Promise<AttachmentSource> {
+    const scheme = url.match(/^([a-z][a-z0-9+.-]+):/i)?.[1].toLowerCase();
+    // One-letter "schemes" are Windows drive letters
+    if (!scheme || scheme.length === 1) {
+        return openLocalFile(url, limits.localDir);
+    }
+    switch (scheme) {
+        case "file":
+            return openLocalFile(fileURLToPath(url), limits.localDir);
+        case "http":
+        case "https":
+            return download(url, limits);
+        case "data":
+            return decodeDataUri(url, limits.maxBytes);
+        default:
+            throw new MefsAttachmentError(`Unsupported attachment URL scheme: ${scheme}`);
+    }
+}
+
+/**
+ * Open a local file, which has to be in the given directory once links are
+ * resolved
+ */
+async function openLocalFile(filePath: string, localDir: string): Promise<AttachmentSource> {
+    const cannotRead = (error: any): never => {
+        throw new MefsAttachmentError(`Cannot read ${filePath}: ${error.code || error.message}`, { cause: error });
+    };
+    const realPath = await fs.promises.realpath(path.resolve(localDir, filePath)).catch(cannotRead);
+    const realDir = await fs.promises.realpath(localDir).catch(cannotRead);
+    const relative = path.relative(realDir, realPath);
+    if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+        throw new MefsAttachmentError(`Refusing to read ${filePath}: local attachments must be in ${localDir}`);
+    }
+    const stats = await fs.promises.stat(realPath).catch(cannotRead);
+    if (!stats.isFile()) {
+        throw new MefsAttachmentError(`Not a file: ${filePath}`);
+    }
+    return { type: "file", path: realPath, filename: path.basename(filePath) };
+}
+
+/**
+ * Whether an address is one downloads must not reach
+ */
+function isBlockedAddress(address: string): boolean {
+    // IPv4 addresses mapped to IPv6 are checked as IPv4
+    const dotted = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+    const hex = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+    const mapped = dotted ?? (hex && [hex[1], hex[2]]
+        .map((group) => parseInt(group, 16))
+        .flatMap((value) => [value >> 8, value & 0xff])
+        .join("."));
+    if (mapped) {
+        return BLOCKED_ADDRESSES.check(mapped, "ipv4");
+    }
+    return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Check that a download URL is http(s) and that its host only resolves to
+ * public addresses
+ * @returns the checked addresses, the only ones the download may connect to
+ * @throws MefsAttachmentError otherwise
+ */
+async function checkDownloadUrl(url: URL): Promise<LookupAddress[]> {
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+        throw new MefsAttachmentError(`Unsupported attachment URL scheme: ${url.protocol.slice(0, -1)}`);
+    }
+    const host = url.hostname.replace(/^\[|\]$/g, "");
+    let addresses: LookupAddress[];
+    try {
+        addresses = await lookup(host, { all: true, verbatim: true });
+    } catch (error: any) {
+        throw new MefsAttachmentError(`Cannot resolve ${host}: ${error.code || error.message}`, { cause: error });
+    }
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+        throw new MefsAttachmentError(`Refusing to download from ${host}: it is not a public address`);
+    }
+    return addresses;
+}
+
+/**
+ * Send a GET request that connects to the given addresses instead of
+ * resolving the host again, so that a DNS answer changed since the check
+ * (DNS rebinding) cannot point the download at another address
+ */
+function requestPinned(url: URL, addresses: LookupAddress[], signal: AbortSignal): Promise<IncomingMessage> {
+    const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+        const candidates = options.family === 4 || options.family === 6
+            ? addresses.filter(({ family }) => family === options.family)
+            : addresses;
+        if (candidates.length === 0) {
+            callback(Object.assign(new Error(`No IPv${options.family} address for ${url.hostname}`), { code: "ENOTFOUND" }), "");
+        } else if (options.all) {
+            callback(null, candidates);
+        } else {
+            callback(null, candidates[0].address, candidates[0].family);
+        }
+    };
+    const client = url.protocol === "https:" ? https : http;
+    return new Promise((resolve, reject) => {
+        const request = client.get(url, {
+            lookup: pinnedLookup,
+            signal,
+            headers: { "Accept-Encoding": "gzip, deflate, br" },
+        }, resolve);
+        request.once("error", reject);
+    });
+}
+
+/**
+ * Decode a response body sent with a Content-Encoding
+ * @throws MefsAttachmentError if the encoding is not supported
+ */
+function decodeBody(response: IncomingMessage, encoding: string | undefined): Readable {
+    switch (encoding) {
+        case undefined:
+        case "":
+        case "identity":
+            return response;
+        case "gzip":
+        case "x-gzip":
+            return response.pipe(zlib.createGunzip());
+        case "deflate":
+            return response.pipe(zlib.createInflate());
+        case "br":
+            return response.pipe(zlib.createBrotliDecompress());
+        default:
+            response.destroy();
+            throw new MefsAttachmentError(`Unsupported Content-Encoding of attachment: ${encoding}`);
+    }
+}
+
+/**
+ * Start downloading a remote attachment. Redirects are followed by hand, so
+ * that every host is checked before it is contacted, and every request
+ * connects to the addresses that were checked. The body is streamed, and
+ * the stream fails once it goes past the size limit.
+ */
+async function download(url: string, limits: AttachmentLimits): Promise<AttachmentSource> {
+    const timeout = AbortSignal.timeout(limits.timeoutMs);
+    const signal = limits.signal ? AbortSignal.any([timeout, limits.signal]) : timeout;
+    const toError = (error: any): Error => {
+        if (limits.signal?.aborted) {
+            return new MefsAbortError("Attachment download was cancelled", { cause: error });
+        }
+        if (timeout.aborted) {
+            return new MefsAttachmentError(`Download timed out after ${limits.timeoutMs}ms`, { cause: error });
+        }
+        return new MefsAttachmentError(
+            `Failed to download ${url}: ${error instanceof Error ? error.message : String(error)}`,
+            { cause: error }
+        );
+    };
+
+    let response: IncomingMessage;
+    let target = new URL(url);
+    for (let redirects = 0; ; redirects++) {
+        const addresses = await checkDownloadUrl(target);
+        try {
+            response = await requestPinned(target, addresses, signal);
+        } catch (error: any) {
+            throw toError(error);
+        }
+        const status = response.statusCode ?? 0;
+        const location = response.headers.location;
+        if (status < 300 || status >= 400 || !location) {
+            break;
+        }
+        response.destroy();
+        if (redirects === MAX_REDIRECTS) {
+            throw new MefsAttachmentError(`Download of ${url} was redirected more than ${MAX_REDIRECTS} times`);
+        }
+        target = new URL(location, target);
+    }
+    const status = response.statusCode ?? 0;
+    if (status < 200 || status >= 300) {
+        response.destroy();
+        throw new MefsAttachmentError(`Download of ${url} failed with HTTP ${status}`, { status });
+    }
+
+    // Content-Length counts the encoded body, while the decoded one is read
+    const encoding = response.headers["content-encoding"]?.trim().toLowerCase();
+    const length = encoding && encoding !== "identity"
+        ? NaN
+        : Number(response.headers["content-length"] ?? NaN);
+    if (Number.isFinite(length) && length > limits.maxBytes) {
+        response.destroy();
+        throw new MefsAttachmentError(`Attachment is too large (${length} bytes, limit ${limits.maxBytes})`);
+    }
+
+    const body = decodeBody(response, encoding);
+    const maxBytes = limits.maxBytes;
+    async function* chunks() {
+        let received = 0;
+        try {
+            for await (const chunk of body) {
+                received += chunk.length;
+                if (received > maxBytes) {
+                    throw new MefsAttachmentError(`Attachment is larger than the limit of ${maxBytes} bytes`);
+                }
+                yield chunk as Buffer;
+            }
+        } catch (error: any) {
+            throw error instanceof MefsAttachmentError ? error : toError(error);
+        } finally {
+            response.destroy();
+        }
+    }
+
+    return {
+        type: "stream",
+        content: Readable.from(chunks(), { objectMode: false }),
+        size: Number.isFinite(length) ? length : undefined,
+        filename: getFilenameFromResponse(response, target.href),
+        contentType: response.headers["content-type"]?.split(";")[0].trim() || undefined,
+    };
+}
+
+/**
+ * Name of a downloaded file, from Content-Disposition or the last segment of the URL
+ */
+function getFilenameFromResponse(response: IncomingMessage, url: string): string | undefined {
+    const fromHeader = getFilenameFromContentDisposition(response.headers["content-disposition"]);
+    if (fromHeader) {
+        return fromHeader;
+    }
+    try {
+        return sanitizeFilename(decodeURIComponent(new URL(url).pathname.split("/").pop() || ""));
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Decode a `data:[<type>][;name=<name>][;base64],<data>` URI
+ */
+function decodeDataUri(uri: string, maxBytes: number): AttachmentSource {
+    const comma = uri.indexOf(",");
+    if (comma === -1) {
+        throw new MefsAttachmentError("Malformed data URI");
+    }
+    const params = uri.slice("data:".length, comma).split(";");
+    const data = uri.slice(comma + 1);
+    const base64 = params[params.length - 1].toLowerCase() === "base64";
+
+    // Check the size before decoding, as the decoded buffer would be as large
+    const estimatedSize = base64 ? Math.floor(data.length * 3 / 4) : data.length;
+    if (estimatedSize > maxBytes + 2) {
+        throw new MefsAttachmentError(`Attachment is larger than the limit of ${maxBytes} bytes`);
+    }
+
+    let content: Buffer;
+    try {
+        content = base64
+            ? Buffer.from(data.replace(/\s+/g, ""), "base64")
+            : Buffer.from(decodeURIComponent(data), "utf-8");
+    } catch (error: any) {
+        throw new MefsAttachmentError("Malformed data URI", { cause: error });
+    }
+    if (content.length > maxBytes) {
+        throw new MefsAttachmentError(`Attachment is larger than the limit of ${maxBytes} bytes`);
+    }
+
+    const name = params.find((param) => /^(file)?name=/i.test(param))?.split("=")[1];
+    let filename: string | undefined;
+    try {
+        filename = sanitizeFilename(name ? decodeURIComponent(name) : undefined);
+    } catch {
+        filename = undefined;
+    }
+    return {
+        type: "buffer",
+        content,
+        filename,
+        contentType: params[0].includes("/") ? params[0].toLowerCase() : undefined,
+    };
+}
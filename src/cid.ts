@@ -0,0 +1,309 @@
+import { createHash, Hash } from "crypto";
+import { CID } from "multiformats/cid";
+import * as Digest from "multiformats/hashes/digest";
+
+const RAW_CODEC = 0x55;
+const DAG_PB_CODEC = 0x70;
+const IDENTITY_HASH = 0x00;
+const SHA2_256_HASH = 0x12;
+const SHA2_512_HASH = 0x13;
+
+/** Node hash algorithms of multihash codes */
+const HASH_ALGORITHMS: Record<number, string> = {
+    [SHA2_256_HASH]: "sha256",
+    [SHA2_512_HASH]: "sha512",
+};
+
+/** UnixFS node types */
+const UNIXFS_RAW = 0;
+const UNIXFS_FILE = 2;
+
+/**
+ * How content is split into a UnixFS DAG. The defaults are the ones of
+ * `ipfs add`: 256 KiB chunks in a balanced tree of up to 174 links per node.
+ */
+export type DagLayout = {
+    /** CID version of the root, and of every node */
+    version: 0 | 1;
+    /** Store leaves as raw blocks rather than as UnixFS nodes (CIDv1 only) */
+    rawLeaves: boolean;
+    /** UnixFS type of leaves that are not raw blocks */
+    leafType: "file" | "raw";
+    chunkSize: number;
+    maxChildren: number;
+};
+
+export const DEFAULT_CHUNK_SIZE = 256 * 1024;
+export const DEFAULT_MAX_CHILDREN = 174;
+
+/**
+ * Outcome of checking content against a CID
+ * - verified: the content hashes to the CID
+ * - mismatch: the content does not hash to the CID
+ * - unverifiable: the CID cannot be checked, e.g. its hash function is not
+ *   supported or its DAG layout could not be reproduced
+ */
+export type VerifyResult = "verified" | "mismatch" | "unverifiable";
+
+type DagNode = { cid: CID; tsize: number; fileSize: number };
+
+const varint = (value: number): Buffer => {
+    const bytes: number[] = [];
+    while (value >= 0x80) {
+        bytes.push((value % 0x80) | 0x80);
+        value = Math.floor(value / 0x80);
+    }
+    bytes.push(value);
+    return Buffer.from(bytes);
+};
+
+const varintField = (field: number, value: number): Buffer =>
+    Buffer.concat([varint(field << 3), varint(value)]);
+
+const bytesField = (field: number, data: Uint8Array): Buffer =>
+    Buffer.concat([varint((field << 3) | 2), varint(data.length), data]);
+
+/**
+ * Encode the UnixFS Data message of a file node
+ */
+function encodeUnixfs(type: number, data: Buffer | null, fileSize: number, blockSizes: number[] = []): Buffer {
+    const parts = [varintField(1, type)];
+    if (data && data.length > 0) {
+        parts.push(bytesField(2, data));
+    }
+    parts.push(varintField(3, fileSize));
+    for (const size of blockSizes) {
+        parts.push(varintField(4, size));
+    }
+    return Buffer.concat(parts);
+}
+
+/**
+ * Encode a dag-pb node; links come before data in the canonical form
+ */
+function encodeDagPb(links: DagNode[], data: Buffer): Buffer {
+    const parts = links.map((link) => bytesField(2, Buffer.concat([
+        bytesField(1, link.cid.bytes),
+        bytesField(2, Buffer.alloc(0)),
+        varintField(3, link.tsize),
+    ])));
+    parts.push(bytesField(1, data));
+    return Buffer.concat(parts);
+}
+
+/**
+ * Build the UnixFS DAG of some content, a chunk at a time, and compute its
+ * root CID without keeping the content in memory
+ */
+export class DagBuilder {
+    private readonly layout: DagLayout;
+    private readonly hashCode: number;
+    private pending: Buffer[] = [];
+    private pendingSize = 0;
+    private leaves: DagNode[] = [];
+
+    constructor(layout: Partial<DagLayout> = {}, hashCode: number = SHA2_256_HASH) {
+        const version = layout.version ?? 1;
+        this.layout = {
+            version,
+            rawLeaves: layout.rawLeaves ?? version === 1,
+            leafType: layout.leafType ?? "file",
+            chunkSize: layout.chunkSize ?? DEFAULT_CHUNK_SIZE,
+            maxChildren: layout.maxChildren ?? DEFAULT_MAX_CHILDREN,
+        };
+        if (!HASH_ALGORITHMS[hashCode]) {
+            throw new Error(`Unsupported multihash code: 0x${hashCode.toString(16)}`);
+        }
+        if (this.layout.version === 0 && (this.layout.rawLeaves || hashCode !== SHA2_256_HASH)) {
+            throw new Error("CIDv0 requires dag-pb leaves and sha2-256");
+        }
+        this.hashCode = hashCode;
+    }
+
+    update(chunk: Uint8Array): void {
+        let data = Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+        while (data.length > 0) {
+            const take = Math.min(this.layout.chunkSize - this.pendingSize, data.length);
+            this.pending.push(data.subarray(0, take));
+            this.pendingSize += take;
+            data = data.subarray(take);
+            if (this.pendingSize === this.layout.chunkSize) {
+                this.flushLeaf();
+            }
+        }
+    }
+
+    /**
+     * @returns CID of the root of the DAG
+     */
+    finish(): CID {
+        if (this.pendingSize > 0 || this.leaves.length === 0) {
+            this.flushLeaf();
+        }
+
+        // A single leaf is the root itself
+        let level = this.leaves;
+        while (level.length > 1) {
+            const parents: DagNode[] = [];
+            for (let index = 0; index < level.length; index += this.layout.maxChildren) {
+                parents.push(this.createParent(level.slice(index, index + this.layout.maxChildren)));
+            }
+            level = parents;
+        }
+        return level[0].cid;
+    }
+
+    private flushLeaf(): void {
+        const data = Buffer.concat(this.pending);
+        this.pending = [];
+        this.pendingSize = 0;
+
+        if (this.layout.rawLeaves) {
+            this.leaves.push({ cid: this.createCid(RAW_CODEC, data), tsize: data.length, fileSize: data.length });
+            return;
+        }
+        // The first leaf may turn out to be the whole file, so it is always
+        // a file node
+        const type = this.layout.leafType === "raw" && this.leaves.length > 0 ? UNIXFS_RAW : UNIXFS_FILE;
+        const block = encodeDagPb([], encodeUnixfs(type, data, data.length));
+        this.leaves.push({ cid: this.createCid(DAG_PB_CODEC, block), tsize: block.length, fileSize: data.length });
+    }
+
+    private createParent(children: DagNode[]): DagNode {
+        const fileSize = children.reduce((total, child) => total + child.fileSize, 0);
+        const block = encodeDagPb(children, encodeUnixfs(
+            UNIXFS_FILE,
+            null,
+            fileSize,
+            children.map((child) => child.fileSize)
+        ));
+        return {
+            cid: this.createCid(DAG_PB_CODEC, block),
+            tsize: block.length + children.reduce((total, child) => total + child.tsize, 0),
+            fileSize,
+        };
+    }
+
+    private createCid(codec: number, block: Buffer): CID {
+        const digest = Digest.create(
+            this.hashCode,
+            createHash(HASH_ALGORITHMS[this.hashCode]).update(block).digest()
+        );
+        return this.layout.version === 0 ? CID.createV0(digest as any) : CID.createV1(codec, digest);
+    }
+}
+
+/**
+ * Check content against the CID it was requested by, a chunk at a time.
+ * Raw CIDs are checked exactly. For UnixFS DAGs the given layout and the
+ * common `ipfs add` layouts are rebuilt, and content that matches none of
+ * them cannot be verified.
+ */
+export class CidVerifier {
+    private readonly cid: CID | null;
+    private readonly hash: Hash | null = null;
+    private readonly identity: Buffer[] | null = null;
+    private readonly builders: DagBuilder[] = [];
+
+    /**
+     * @param cid - requested CID
+     * @param layout - layout the content was most likely stored with, tried
+     *                 first if it has the version of the CID
+     */
+    constructor(cid: string, layout?: Partial<DagLayout>) {
+        let parsed: CID | null;
+        try {
+            parsed = CID.parse(cid);
+        } catch {
+            parsed = null;
+        }
+        this.cid = parsed;
+        if (!parsed) {
+            return;
+        }
+
+        const hashCode = parsed.multihash.code;
+        if (parsed.code === RAW_CODEC) {
+            if (hashCode === IDENTITY_HASH) {
+                this.identity = [];
+            } else if (HASH_ALGORITHMS[hashCode]) {
+                this.hash = createHash(HASH_ALGORITHMS[hashCode]);
+            }
+        } else if (parsed.code === DAG_PB_CODEC && HASH_ALGORITHMS[hashCode]) {
+            const layouts: Array<Partial<DagLayout>> = parsed.version === 0
+                ? [{ version: 0, leafType: "file" }, { version: 0, leafType: "raw" }]
+                : [{ version: 1, rawLeaves: true }, { version: 1, rawLeaves: false, leafType: "file" }];
+            const version = layout?.version ?? 1;
+            if (layout && version === parsed.version && !(version === 0 && layout.rawLeaves)) {
+                layouts.unshift(layout);
+            }
+            for (const layout of layouts) {
+                this.builders.push(new DagBuilder(layout, hashCode));
+            }
+        }
+    }
+
+    update(chunk: Uint8Array): void {
+        this.hash?.update(chunk);
+        this.identity?.push(Buffer.from(chunk));
+        for (const builder of this.builders) {
+            builder.update(chunk);
+        }
+    }
+
+    result(): VerifyResult {
+        if (!this.cid) {
+            return "unverifiable";
+        }
+        if (this.hash) {
+            return Buffer.from(this.cid.multihash.digest).equals(this.hash.digest()) ? "verified" : "mismatch";
+        }
+        if (this.identity) {
+            return Buffer.from(this.cid.multihash.digest).equals(Buffer.concat(this.identity)) ? "verified" : "mismatch";
+        }
+        for (const builder of this.builders) {
+            if (builder.finish().equals(this.cid)) {
+                return "verified";
+            }
+        }
+        return "unverifiable";
+    }
+}
+
+/**
+ * Compute the CID of some content, as `ipfs add` would with the same layout
+ * @param content - whole content
+ * @param layout - DAG layout (default: CIDv1 with raw leaves)
+ */
+export function computeCid(content: Uint8Array, layout: Partial<DagLayout> = {}): string {
+    const builder = new DagBuilder(layout);
+    builder.update(content);
+    return builder.finish().toString();
+}
+
+/**
+ * Whether two CIDs identify the same block, e.g. a CIDv0 and its CIDv1
+ * form. Unparseable CIDs are only equal to themselves.
+ */
+export function isSameCid(a: string, b: string): boolean {
+    if (a === b) {
+        return true;
+    }
+    try {
+        return CID.parse(a).toV1().equals(CID.parse(b).toV1());
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Check content against the CID it was requested by
+ * @param cid - requested CID
+ * @param content - content returned for it
+ * @param layout - layout the content was most likely stored with
+ */
+export function verifyContent(cid: string, content: Uint8Array, layout?: Partial<DagLayout>): VerifyResult {
+    const verifier = new CidVerifier(cid, layout);
+    verifier.update(content);
+    return verifier.result();
+}
@@ -0,0 +1,195 @@
+import { IAgentRuntime, logger } from "@elizaos/core";
+import { randomBytes } from "crypto";
+import { decryptString, deriveKeyFromPassphrase, encryptString } from "../crypto";
+
+/** Prefix of exported key bundles, so that they can be recognized in a message */
+export const KEY_BUNDLE_PREFIX = "mefskeys1:";
+
+/**
+ * Key of one file, as kept in the store
+ */
+export type StoredKey = {
+    /** MEFS key of the file, wrapped with the agent wallet */
+    wrappedKey: string;
+    /** When the key was saved, in milliseconds since epoch */
+    createdAt: number;
+    /** CID of the copy the key replaced, if it was saved by a rotation */
+    rotatedFrom?: string;
+};
+
+/**
+ * Content of an exported key bundle, before it is encrypted with the passphrase
+ */
+type KeyBundle = {
+    version: 1;
+    keys: Record<string, { key: string; createdAt: number; rotatedFrom?: string }>;
+};
+
+/**
+ * Per-file keys of private uploads, indexed by CID. Every key is random, and
+ * is stored in the runtime cache wrapped with a key derived from the agent
+ * wallet, so that only this agent can read it back.
+ */
+export class KeyStore {
+    /** Writes are chained so that concurrent saves do not overwrite each other */
+    private writeQueue: Promise<unknown> = Promise.resolve();
+
+    constructor(
+        private readonly runtime: IAgentRuntime,
+        private readonly getWalletAddress: () => string,
+        private readonly getWrappingKey: () => Promise<Buffer>
+    ) { }
+
+    /**
+     * Generate a random key for a new upload
+     * @returns 256-bit key, hex encoded
+     */
+    generateKey(): string {
+        return randomBytes(32).toString("hex");
+    }
+
+    /**
+     * Get the key of a file
+     * @param cid - content identifier
+     * @returns the key, or undefined if the store has none for the file
+     */
+    async getKey(cid: string): Promise<string | undefined> {
+        const entry = (await this.load())[cid];
+        if (!entry) {
+            return undefined;
+        }
+        return decryptString(entry.wrappedKey, await this.getWrappingKey());
+    }
+
+    /**
+     * Save the key of a file, replacing the one it had
+     * @param cid - content identifier
+     * @param key - MEFS key the file was uploaded with
+     * @param rotatedFrom - CID of the copy the key replaces, if any
+     */
+    async saveKey(cid: string, key: string, rotatedFrom?: string): Promise<void> {
+        const wrappedKey = encryptString(key, await this.getWrappingKey());
+        await this.update((entries) => {
+            entries[cid] = { wrappedKey, createdAt: Date.now(), rotatedFrom };
+        });
+        logger.info(`Saved key of file ${cid}`);
+    }
+
+    /**
+     * Remove the key of a file
+     * @param cid - content identifier
+     * @returns whether the store had a key for the file
+     */
+    async removeKey(cid: string): Promise<boolean> {
+        let removed = false;
+        await this.update((entries) => {
+            removed = cid in entries;
+            delete entries[cid];
+        });
+        return removed;
+    }
+
+    /**
+     * List the CIDs the store has keys for
+     */
+    async listCids(): Promise<string[]> {
+        return Object.keys(await this.load());
+    }
+
+    /**
+     * Export every key, encrypted with a passphrase, e.g. to move them to
+     * another agent
+     * @param passphrase - passphrase required to import the bundle
+     * @returns bundle starting with KEY_BUNDLE_PREFIX
+     */
+    async exportKeys(passphrase: string): Promise<{ bundle: string; count: number }> {
+        const wrappingKey = await this.getWrappingKey();
+        const bundle: KeyBundle = { version: 1, keys: {} };
+        for (const [cid, entry] of Object.entries(await this.load())) {
+            bundle.keys[cid] = {
+                key: decryptString(entry.wrappedKey, wrappingKey),
+                createdAt: entry.createdAt,
+                rotatedFrom: entry.rotatedFrom,
+            };
+        }
+
+        const salt = randomBytes(16);
+        const payload = encryptString(JSON.stringify(bundle), await deriveKeyFromPassphrase(passphrase, salt));
+        return {
+            bundle: KEY_BUNDLE_PREFIX + Buffer.from(JSON.stringify({ salt: salt.toString("base64"), payload })).toString("base64"),
+            count: Object.keys(bundle.keys).length,
+        };
+    }
+
+    /**
+     * Import keys exported by `exportKeys`. Keys the store already has are
+     * replaced by the imported ones.
+     * @param bundle - exported bundle
+     * @param passphrase - passphrase the bundle was exported with
+     * @returns number of imported keys
+     * @throws if the bundle is malformed or the passphrase is wrong
+     */
+    async importKeys(bundle: string, passphrase: string): Promise<number> {
+        if (!bundle.startsWith(KEY_BUNDLE_PREFIX)) {
+            throw new Error("Not a MEFS key bundle");
+        }
+
+        let keys: KeyBundle["keys"];
+        try {
+            const { salt, payload } = JSON.parse(
+                Buffer.from(bundle.slice(KEY_BUNDLE_PREFIX.length), "base64").toString("utf-8")
+            );
+            const content: KeyBundle = JSON.parse(
+                decryptString(payload, await deriveKeyFromPassphrase(passphrase, Buffer.from(salt, "base64")))
+            );
+            if (content.version !== 1) {
+                throw new Error(`Unsupported key bundle version: ${content.version}`);
+            }
+            keys = content.keys;
+        } catch (error: any) {
+            throw new Error(
+                `Failed to read key bundle, check the passphrase: ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+
+        const wrappingKey = await this.getWrappingKey();
+        await this.update((entries) => {
+            for (const [cid, entry] of Object.entries(keys)) {
+                entries[cid] = {
+                    wrappedKey: encryptString(entry.key, wrappingKey),
+                    createdAt: entry.createdAt,
+                    rotatedFrom: entry.rotatedFrom,
+                };
+            }
+        });
+        logger.info(`Imported ${Object.keys(keys).length} key(s)`);
+        return Object.keys(keys).length;
+    }
+
+    /**
+     * Cache key of the store, unique per wallet
+     */
+    private getCacheKey(): string {
+        return `mefs:keys:${this.getWalletAddress().toLowerCase()}`;
+    }
+
+    private async load(): Promise<Record<string, StoredKey>> {
+        return (await this.runtime.getCache<Record<string, StoredKey>>(this.getCacheKey())) ?? {};
+    }
+
+    /**
+     * Apply a change to the stored entries, after every earlier change is written
+     */
+    private update(change: (entries: Record<string, StoredKey>) => void): Promise<void> {
+        const task = this.writeQueue.then(async () => {
+            const entries = await this.load();
+            change(entries);
+            const saved = await this.runtime.setCache(this.getCacheKey(), entries);
+            if (saved === false) {
+                throw new Error("Failed to save keys to the runtime cache");
+            }
+        });
+        this.writeQueue = task.catch(() => undefined);
+        return task;
+    }
+}
@@ -0,0 +1,273 @@
+import {
+    IAgentRuntime,
+    MemoryType,
+    type Memory,
+    type MemoryMetadata,
+    type UUID,
+    asUUID,
+    logger,
+} from "@elizaos/core";
+import { randomUUID } from "crypto";
+
+/** Memory table the upload records are kept in */
+export const UPLOAD_TABLE = "mefs_uploads";
+
+/**
+ * What was uploaded: a message attachment, a response of the agent, or
+ * content passed to StorageService directly
+ */
+export type UploadSource = "attachment" | "response" | "api";
+
+/**
+ * Who uploaded a file and where, as passed with the upload options
+ */
+export type UploadContext = {
+    /** Entity that asked for the upload (default: the agent) */
+    entityId?: UUID;
+    /** Room the upload was asked in (default: the agent's own room) */
+    roomId?: UUID;
+    worldId?: UUID;
+    source?: UploadSource;
+};
+
+/**
+ * One upload, as recorded in the registry
+ */
+export type UploadRecord = {
+    /** ID of the memory holding the record */
+    id: UUID;
+    cid: string;
+    filename: string;
+    /** Byte length of the content, before any encryption */
+    size: number;
+    contentType: string;
+    public: boolean;
+    /** Wallet of the MEFS account the file was uploaded to */
+    wallet: string;
+    entityId: UUID;
+    roomId: UUID;
+    worldId?: UUID;
+    source: UploadSource;
+    /** When the upload finished, in milliseconds since epoch */
+    uploadedAt: number;
+    /** When the file was deleted from MEFS, if it was */
+    deletedAt?: number;
+    /** Entity that deleted the file */
+    deletedBy?: UUID;
+};
+
+/**
+ * Filters of `UploadRegistry.query`. Every filter given must match.
+ */
+export type UploadQuery = {
+    roomId?: UUID;
+    entityId?: UUID;
+    /** Part of the file name, case-insensitive */
+    name?: string;
+    cid?: string;
+    public?: boolean;
+    /** MIME type, or a type prefix such as "image/" */
+    contentType?: string;
+    source?: UploadSource;
+    /** Uploaded at or after this time, in milliseconds since epoch */
+    since?: number;
+    /** Uploaded at or before this time, in milliseconds since epoch */
+    until?: number;
+    /** Largest number of records returned */
+    limit?: number;
+    /** Number of matching records skipped, newest first */
+    offset?: number;
+    /** Include files that were deleted from MEFS (default: false) */
+    includeDeleted?: boolean;
+};
+
+/**
+ * Fields of an upload record kept in the memory metadata; the others are
+ * fields of the memory itself
+ */
+type StoredUpload = Pick<
+    UploadRecord,
+    "cid" | "filename" | "size" | "contentType" | "public" | "wallet" | "source" | "deletedAt" | "deletedBy"
+>;
+
+/**
+ * Record of every file the agent has uploaded to MEFS, kept as memories of
+ * the runtime so that it survives restarts. Only the uploads of the
+ * configured wallet are visible.
+ */
+export class UploadRegistry {
+    constructor(
+        private readonly runtime: IAgentRuntime,
+        private readonly getWalletAddress: () => string
+    ) { }
+
+    /**
+     * Record an upload
+     * @param upload - what was uploaded
+     * @param context - who uploaded it and where
+     * @returns the saved record
+     */
+    async record(
+        upload: Pick<UploadRecord, "cid" | "filename" | "size" | "contentType" | "public">,
+        context: UploadContext = {}
+    ): Promise<UploadRecord> {
+        const record: UploadRecord = {
+            ...upload,
+            id: asUUID(randomUUID()),
+            wallet: this.getWalletAddress().toLowerCase(),
+            entityId: context.entityId ?? this.runtime.agentId,
+            roomId: context.roomId ?? this.runtime.agentId,
+            worldId: context.worldId,
+            source: context.source ?? "api",
+            uploadedAt: Date.now(),
+        };
+        await this.runtime.createMemory({
+            id: record.id,
+            entityId: record.entityId,
+            agentId: this.runtime.agentId,
+            roomId: record.roomId,
+            worldId: record.worldId,
+            createdAt: record.uploadedAt,
+            content: {
+                text: `Uploaded ${record.filename} to MEFS as ${record.cid}`,
+                source: "mefs",
+            },
+            metadata: toMemoryMetadata(record),
+        }, UPLOAD_TABLE);
+        logger.debug(`Recorded upload of ${record.filename} as ${record.cid}`);
+        return record;
+    }
+
+    /**
+     * Find recorded uploads
+     * @param query - filters and pagination
+     * @returns matching records, newest first
+     */
+    async query(query: UploadQuery = {}): Promise<UploadRecord[]> {
+        return (await this.queryWithTotal(query)).records;
+    }
+
+    /**
+     * Find recorded uploads, and count every record matching the filters,
+     * with a single scan of the records
+     * @param query - filters and pagination
+     * @returns matching records, newest first, and the number of matches
+     *          before pagination
+     */
+    async queryWithTotal(query: UploadQuery = {}): Promise<{ records: UploadRecord[]; total: number }> {
+        const records = await this.filter(query);
+        const offset = query.offset ?? 0;
+        return {
+            records: records.slice(offset, query.limit !== undefined ? offset + query.limit : undefined),
+            total: records.length,
+        };
+    }
+
+    /**
+     * Every record matching the filters of a query, newest first. The
+     * wallet and deletion filters cannot be given to the database, so
+     * pagination is applied to the result.
+     */
+    private async filter(query: Omit<UploadQuery, "limit" | "offset">): Promise<UploadRecord[]> {
+        // Room, entity and dates are filtered by the database, the rest here
+        const memories = await this.runtime.getMemories({
+            tableName: UPLOAD_TABLE,
+            agentId: this.runtime.agentId,
+            roomId: query.roomId,
+            entityId: query.entityId,
+            start: query.since,
+            end: query.until,
+        });
+
+        const wallet = this.getWalletAddress().toLowerCase();
+        const name = query.name?.toLowerCase();
+        const contentType = query.contentType?.toLowerCase();
+        return memories
+            .map(toUploadRecord)
+            .filter((record): record is UploadRecord => !!record
+                && record.wallet === wallet
+                && (!query.roomId || record.roomId === query.roomId)
+                && (!query.entityId || record.entityId === query.entityId)
+                && (!name || record.filename.toLowerCase().includes(name))
+                && (!query.cid || record.cid === query.cid)
+                && (query.public === undefined || record.public === query.public)
+                && (!contentType || (contentType.endsWith("/")
+                    ? record.contentType.startsWith(contentType)
+                    : record.contentType === contentType))
+                && (!query.source || record.source === query.source)
+                && (query.includeDeleted || record.deletedAt === undefined)
+                && (query.since === undefined || record.uploadedAt >= query.since)
+                && (query.until === undefined || record.uploadedAt <= query.until))
+            .sort((a, b) => b.uploadedAt - a.uploadedAt);
+    }
+
+    /**
+     * Record that a file was deleted from MEFS. Its records are kept, so that
+     * the history shows who deleted it and when.
+     * @param cid - content identifier
+     * @param deletedBy - entity that deleted the file (default: the agent)
+     * @returns number of records of the file
+     */
+    async recordDeletion(cid: string, deletedBy?: UUID): Promise<number> {
+        const records = await this.query({ cid });
+        const deletedAt = Date.now();
+        for (const record of records) {
+            await this.runtime.updateMemory({
+                id: record.id,
+                metadata: toMemoryMetadata({ ...record, deletedAt, deletedBy: deletedBy ?? this.runtime.agentId }),
+            });
+        }
+        logger.debug(`Recorded deletion of ${cid} in ${records.length} upload record(s)`);
+        return records.length;
+    }
+
+    /**
+     * Count recorded uploads
+     * @param query - filters; pagination is ignored
+     */
+    async count(query: Omit<UploadQuery, "limit" | "offset"> = {}): Promise<number> {
+        return (await this.filter(query)).length;
+    }
+}
+
+/**
+ * Metadata of the memory holding an upload record
+ */
+function toMemoryMetadata(record: UploadRecord): MemoryMetadata {
+    const upload: StoredUpload = {
+        cid: record.cid,
+        filename: record.filename,
+        size: record.size,
+        contentType: record.contentType,
+        public: record.public,
+        wallet: record.wallet,
+        source: record.source,
+        deletedAt: record.deletedAt,
+        deletedBy: record.deletedBy,
+    };
+    return {
+        type: MemoryType.CUSTOM,
+        source: "mefs",
+        timestamp: record.uploadedAt,
+        upload,
+    };
+}
+
+/**
+ * Read an upload record back from its memory
+ * @returns the record, or null if the memory does not hold one
+ */
+function toUploadRecord(memory: Memory): UploadRecord | null {
+    const stored = (memory.metadata as { upload?: StoredUpload } | undefined)?.upload;
+    if (!memory.id || !stored?.cid) {
+        return null;
+    }
+    return {
+        ...stored,
+        id: memory.id,
+        entityId: memory.entityId,
+        roomId: memory.roomId,
+        worldId: memory.worldId,
+        uploadedAt: memory.createdAt ?? 0,
+    };
+}
@@ -1,49 +1,570 @@
-import { Service, logger, IAgentRuntime } from "@elizaos/core";
+import { Service, logger, IAgentRuntime, type UUID, getSalt, getUploadsAgentsDir } from "@elizaos/core";
+import fs from "fs";
+import path from "path";
+import { Readable, Transform, pipeline as pipeStreams } from "stream";
+import { pipeline } from "stream/promises";
+import { createHash, randomBytes } from "crypto";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
 import {
     MefsConfig,
     validateStorageClientConfig,
 } from "../schemes";
+import { decodeJwtTimes, getFilenameFromContentDisposition } from "../utils";
+import {
+    ENCRYPTION_HEADER_LENGTH,
+    ENCRYPTION_VERSION,
+    EncryptionHeader,
+    NONCE_PREFIX_LENGTH,
+    createDecryptStream,
+    createEncryptStream,
+    createEncryptionHeader,
+    decryptContent,
+    decryptSegment,
+    decryptString,
+    deriveKey,
+    encryptContent,
+    encryptSegment,
+    encryptString,
+    getEncryptedSize,
+    getKeyId,
+    parseEncryptionHeader,
+} from "../crypto";
+import { createMultipartBody } from "../multipart";
+import { openAttachment } from "../attachments";
+import { DEFAULT_MIME_TYPE, MIME_SNIFF_LENGTH, detectMimeType } from "../mime";
+import { CidVerifier, DagBuilder, DagLayout, VerifyResult, computeCid, isSameCid } from "../cid";
+import { KeyStore } from "./keystore";
+import { UploadContext, UploadRecord, UploadRegistry } from "./registry";
+import {
+    MefsAbortError,
+    MefsAuthError,
+    MefsDecryptionError,
+    MefsError,
+    MefsIntegrityError,
+    MefsNetworkError,
+    MefsNotFoundError,
+    MefsQuotaError,
+    MefsTimeoutError,
+    errorFromResponse,
+} from "../errors";
+import {
+    RetryPolicy,
+    getBackoffDelay,
+    isRetryableFetchError,
+    isRetryableStatus,
+    parseRetryAfter,
+    sleep,
+} from "../retry";
+
+/** Renew the access token when it has less than this long left */
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+/** Uploads may run for a long time, so they require a longer remaining lifetime */
+const UPLOAD_TOKEN_MARGIN_MS = 5 * 60 * 1000;
+/** How long the account info used to check uploads against the quota is reused */
+const QUOTA_CHECK_TTL_MS = 30 * 1000;
+
+/**
+ * Lifetime of the current MEFS access token, in milliseconds since epoch
+ */
+export type TokenState = {
+    authenticated: boolean;
+    issuedAt: number | null;
+    expiresAt: number | null;
+    lastRefresh: number | null;
+};
+
+/**
+ * Per-call options of StorageService operations
+ */
+export type RequestOptions = {
+    /** Cancels the operation when aborted */
+    signal?: AbortSignal;
+    /** Total time allowed for the operation, overriding MEFS_REQUEST_TIMEOUT_MS */
+    timeoutMs?: number;
+};
+
+/**
+ * Options of the upload methods
+ */
+export type UploadOptions = RequestOptions & {
+    /** Whether the file is public (default: false) */
+    public?: boolean;
+    /**
+     * Encryption key of a private file; MEFS uses a default key if not
+     * provided. Public files cannot have a key.
+     */
+    key?: string;
+    /**
+     * Protect a private file with a new random key instead of `key`, and
+     * save it in the key store under the file's CID. A resumed chunked
+     * upload goes on with the key it was started with.
+     */
+    generateKey?: boolean;
+    /** Byte length of the content, if known */
+    size?: number;
+    /**
+     * MIME type declared for the content. Magic bytes found in the content
+     * take precedence, and the file name is used if neither is conclusive.
+     */
+    contentType?: string;
+    /**
+     * Encrypt the content on the agent before uploading it. By default
+     * private files are encrypted when MEFS_CLIENT_ENCRYPTION is enabled.
+     */
+    encrypt?: boolean;
+    /**
+     * Upload in resumable chunks. By default chunks are only used for files
+     * of at least MEFS_CHUNKED_UPLOAD_THRESHOLD bytes (64 MiB). Files
+     * are uploaded in a single request if MEFS does not support chunks.
+     */
+    chunked?: boolean;
+    /**
+     * Skip the upload if MEFS already stores the same content (default:
+     * true). Only public files can be deduplicated, as private files are
+     * stored encrypted with their own key.
+     */
+    dedupe?: boolean;
+    /** Who uploaded the file and where, for the upload registry */
+    context?: UploadContext;
+};
+
+/**
+ * Random-access source of a chunked upload
+ */
+type ChunkSource = {
+    /** Identifies the content, so that an interrupted upload can be found again */
+    identity: string;
+    size: number;
+    read(offset: number, length: number): Promise<Buffer>;
+    close(): Promise<void>;
+};
+
+/**
+ * Progress of a chunked upload, persisted in the runtime cache so that it
+ * can be resumed after an interruption or a restart
+ */
+type ChunkedUploadSession = {
+    uploadId: string;
+    filename: string;
+    size: number;
+    partSize: number;
+    /** SHA-256 (hex) of every part MEFS has confirmed, by 1-based part number */
+    parts: Record<number, string>;
+    /** Nonce prefix (hex) of content encrypted on the agent */
+    noncePrefix?: string;
+    /** Generated key of the file, wrapped like the key store entries */
+    wrappedKey?: string;
+};
+
+/**
+ * How retrieved content is checked against its CID
+ * - strict: reject content that does not match the CID, or that cannot be verified
+ * - warn: log content that does not match or cannot be verified, and return it
+ * - off: do not check
+ */
+export type VerifyMode = "strict" | "warn" | "off";
+
+/**
+ * Options of the retrieval methods that check content against its CID
+ */
+export type VerifyOptions = {
+    /** Overrides MEFS_VERIFY_CONTENT */
+    verify?: VerifyMode;
+};
+
+/**
+ * Options of the streaming retrieval methods
+ */
+export type RetrieveOptions = RequestOptions & VerifyOptions & {
+    /** Decryption key, required for files uploaded with a key */
+    key?: string;
+};
+
+/**
+ * What is known about a retrieved file
+ */
+export type RetrievedFileInfo = {
+    /** MIME type reported by MEFS, or detected from the content */
+    contentType: string;
+    /** File name reported by MEFS, if any */
+    filename?: string;
+    size: number;
+};
+
+/**
+ * Content of a retrieved file, with what is known about it
+ */
+export type RetrievedFile = RetrievedFileInfo & {
+    content: Buffer;
+};
+
+/**
+ * Stream of a file's content, with the type and name MEFS reported for it
+ */
+type FileStream = {
+    stream: Readable;
+    /** Dropped once the content turns out to be encrypted on the agent */
+    declaredType?: string;
+    filename?: string;
+};
+
+/**
+ * What is known about a stored file, without its content. Fields that
+ * neither MEFS nor the upload registry report are left out.
+ */
+export type FileStat = {
+    cid: string;
+    /** Byte length of the content, before any encryption on the agent */
+    size?: number;
+    /** Byte length of the bytes MEFS stores */
+    storedSize?: number;
+    contentType?: string;
+    filename?: string;
+    public?: boolean;
+    /** Wallet address of the MEFS account that owns the file */
+    owner?: string;
+    /** When the file was stored, in milliseconds since epoch */
+    createdAt?: number;
+    replication?: ReplicationStatus;
+    /** Whether the file was uploaded through this agent */
+    recorded: boolean;
+};
+
+/**
+ * How far MEFS has replicated a file to its storage providers
+ */
+export type ReplicationStatus = {
+    /** Status reported by MEFS, e.g. "pending" or "replicated" */
+    status: string;
+    /** Number of copies stored */
+    replicas?: number;
+};
+
+/**
+ * Storage usage and balance of the MEFS account of the configured wallet.
+ * Fields that MEFS does not report are left out.
+ */
+export type AccountInfo = {
+    /** Wallet address of the account */
+    address: string;
+    /** Bytes stored by the account */
+    usedBytes?: number;
+    /** Number of files stored by the account */
+    objectCount?: number;
+    /** Bytes the account may store */
+    quotaBytes?: number;
+    /** Bytes left before the quota is reached */
+    availableBytes?: number;
+    /** Balance of the account, in the unit MEFS reports it in */
+    balance?: string;
+};
+
+/**
+ * MEFS session as persisted (encrypted) in the runtime cache
+ */
+type CachedSession = {
+    accessToken: string;
+    refreshToken: string | null;
+    issuedAt: number | null;
+    expiresAt: number | null;
+    lastRefresh: number | null;
+};
+
+/** Message signed by the wallet to derive the client-side encryption key */
+const CONTENT_KEY_MESSAGE = "MEFS client-side encryption key\nVersion: 1";
+/** Message signed by the wallet to derive the key that wraps per-file keys */
+const KEY_STORE_MESSAGE = "MEFS key store\nVersion: 1";
+
+/**
+ * Read the start of a stream without losing it
+ * @returns the first `length` bytes (fewer if the stream is shorter), and a
+ *          stream of the whole content
+ */
+async function peekStream(readable: Readable, length: number): Promise<{ head: Buffer; content: Readable }> {
+    const iterator: AsyncIterator<Buffer> = readable[Symbol.asyncIterator]();
+    const chunks: Buffer[] = [];
+    let received = 0;
+    let done = false;
+    while (received < length) {
+        const result = await iterator.next();
+        if (result.done) {
+            done = true;
+            break;
+        }
+        const chunk = Buffer.from(result.value);
+        chunks.push(chunk);
+        received += chunk.length;
+    }
+
+    const head = Buffer.concat(chunks);
+    async function* rest() {
+        try {
+            yield head;
+            while (!done) {
+                const result = await iterator.next();
+                if (result.done) {
+                    done = true;
+                    break;
+                }
+                yield result.value;
+            }
+        } finally {
+            if (!done) {
+                await iterator.return?.();
+            }
+        }
+    }
+    return { head: head.subarray(0, length), content: Readable.from(rest(), { objectMode: false }) };
+}
+
+/**
+ * Encrypt a chunk source on the fly. Each part is built from the segments
+ * it overlaps, so any part can be produced again when an upload resumes,
+ * with the nonce prefix saved in the upload session.
+ * @param noncePrefix - random for every new upload
+ */
+function encryptChunkSource(source: ChunkSource, key: Buffer, noncePrefix: Buffer): ChunkSource {
+    const header = createEncryptionHeader(key, noncePrefix);
+    const segmentSize = header.segmentSize;
+    const stride = segmentSize + 16;
+    const segmentCount = Math.max(1, Math.ceil(source.size / segmentSize));
+    const size = getEncryptedSize(source.size, segmentSize);
+
+    return {
+        identity: `${source.identity}:encrypted:${getKeyId(key).toString("hex")}`,
+        size,
+        read: async (offset, length) => {
+            const end = Math.min(size, offset + length);
+            const parts: Buffer[] = [];
+            if (offset < ENCRYPTION_HEADER_LENGTH) {
+                parts.push(header.raw.subarray(offset, Math.min(end, ENCRYPTION_HEADER_LENGTH)));
+            }
+            const first = Math.floor(Math.max(0, offset - ENCRYPTION_HEADER_LENGTH) / stride);
+            const last = Math.floor(Math.max(0, end - 1 - ENCRYPTION_HEADER_LENGTH) / stride);
+            for (let index = first; index <= last && end > ENCRYPTION_HEADER_LENGTH; index++) {
+                const plaintext = await source.read(index * segmentSize, segmentSize);
+                const segment = encryptSegment(key, header, index, index === segmentCount - 1, plaintext);
+                const segmentStart = ENCRYPTION_HEADER_LENGTH + index * stride;
+                parts.push(segment.subarray(
+                    Math.max(0, offset - segmentStart),
+                    Math.min(segment.length, end - segmentStart)
+                ));
+            }
+            return Buffer.concat(parts);
+        },
+        close: () => source.close(),
+    };
+}
+
+/**
+ * Read a non-negative integer header
+ * @returns the number, or undefined if the header is missing or invalid
+ */
+function parseHeaderNumber(value: string | null): number | undefined {
+    return value && /^\s*\d+\s*$/.test(value) ? parseInt(value, 10) : undefined;
+}
+
+/**
+ * Read a non-negative number of the account info, sent as a number or a
+ * numeric string
+ * @returns the number, or undefined if it is missing or invalid
+ */
+function parseAccountNumber(value: unknown): number | undefined {
+    const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+    return typeof number === "number" && Number.isFinite(number) && number >= 0 ? number : undefined;
+}
+
+/**
+ * Read a date header, an HTTP date or an ISO 8601 date
+ * @returns the time in milliseconds since epoch, or undefined if the header
+ *          is missing or invalid
+ */
+function parseHeaderDate(value: string | null): number | undefined {
+    const time = value ? Date.parse(value) : NaN;
+    return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Make sure content was encrypted with the given key and a known format version
+ * @throws MefsDecryptionError otherwise
+ */
+function checkContentKey(header: EncryptionHeader, key: Buffer, endpoint: string): void {
+    if (header.version !== ENCRYPTION_VERSION || !header.keyId.equals(getKeyId(key))) {
+        throw new MefsDecryptionError(
+            "The file was encrypted on the client with a different key or format version",
+            { endpoint }
+        );
+    }
+}
+
+/**
+ * Treat any failure of the login handshake as an auth failure, except when
+ * MEFS itself could not be reached
+ */
+function toAuthError(error: MefsError): MefsError {
+    if (error instanceof MefsNetworkError || error instanceof MefsAuthError) {
+        return error;
+    }
+    return new MefsAuthError(error.message, error);
+}
+
+/**
+ * Error to throw once a request signal has aborted
+ */
+function abortReason(signal: AbortSignal, endpoint?: string): MefsError {
+    if (signal.reason instanceof MefsError) {
+        return signal.reason;
+    }
+    return new MefsAbortError(
+        `MEFS request was cancelled${endpoint ? ` (${endpoint})` : ""}`,
+        { endpoint, cause: signal.reason }
+    );
+}
+
+/**
+ * Wait for a promise, but stop waiting once the signal aborts. The promise
+ * itself keeps running, which lets other callers still share it.
+ */
+function raceSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+    if (signal.aborted) {
+        return Promise.reject(abortReason(signal));
+    }
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(abortReason(signal));
+        signal.addEventListener("abort", onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => {
+            signal.removeEventListener("abort", onAbort);
+        });
+    });
+}
 
 export class StorageService extends Service {
     private mefsConfig: MefsConfig | null = null;
     private accessToken: string | null = null;
     private refreshToken: string | null = null;
+    private tokenIssuedAt: number | null = null;
+    private tokenExpiresAt: number | null = null;
+    private tokenLastRefresh: number | null = null;
+    private sessionPromise: Promise<void> | null = null;
+    /** Client-side encryption key, derived from a wallet signature on first use */
+    private contentKey: Buffer | null = null;
+    /** Key wrapping the key store entries, derived from a wallet signature on first use */
+    private keyStoreKey: Buffer | null = null;
+    /** Set once MEFS answered that it has no multipart API */
+    private chunkedUploadUnsupported = false;
+    /** Account info of the last quota check, null if it could not be had */
+    private quotaCheck: { info: AccountInfo | null; expiresAt: number } | null = null;
+    /** Set once a failed quota check was logged, until one succeeds again */
+    private quotaCheckFailureLogged = false;
+    /** Aborted by stop() to cancel every in-flight request */
+    private shutdownController = new AbortController();
     protected runtime: IAgentRuntime;
     static serviceType: string = "storage";
     capabilityDescription: string =
         "Manages files in MEFS storage system";
+    /** Per-file keys of private uploads */
+    readonly keys: KeyStore;
+    /** Record of every upload */
+    readonly uploads: UploadRegistry;
 
     constructor(runtime: IAgentRuntime) {
         super(runtime);
         this.runtime = runtime;
+        this.keys = new KeyStore(
+            runtime,
+            () => this.getConfig().MEFS_WALLET_ADDRESS,
+            () => this.getKeyStoreKey()
+        );
+        this.uploads = new UploadRegistry(runtime, () => this.getConfig().MEFS_WALLET_ADDRESS);
     }
 
-    async initializeStorage(): Promise<void> {
+    async initializeStorage(options: RequestOptions = {}): Promise<void> {
+        if (this.mefsConfig && this.accessToken) {
+            logger.info("Storage client already initialized");
+            return;
+        }
+        let scope: ReturnType<StorageService["createRequestScope"]> | null = null;
         try {
-            if (this.mefsConfig && this.accessToken) {
-                logger.info("Storage client already initialized");
-                return;
-            }
             if (!this.runtime) {
                 throw new Error("Runtime not available");
             }
             logger.info("Storage client initializing...");
             this.mefsConfig = await validateStorageClientConfig(this.runtime);
 
-            // Login to MEFS
-            await this.loginToMEFS();
+            // The timeout is only known once the config is loaded
+            scope = this.createRequestScope(options);
+
+            // Reuse a session saved by a previous run, otherwise login to MEFS
+            await this.restoreSession();
+            await this.ensureSession(TOKEN_REFRESH_MARGIN_MS, scope.signal);
 
             logger.success(`✅ Storage client successfully started`);
         } catch (error: any) {
             logger.error(error, "❌ Storage client failed to start");
             throw error;
+        } finally {
+            scope?.dispose();
+        }
+    }
+
+    /**
+     * Create the signal for one operation: it aborts when the caller's signal
+     * aborts, when the total timeout passes or when the service stops
+     * @returns the signal, and a dispose function to call once the operation is over
+     */
+    private createRequestScope(options: RequestOptions = {}): {
+        signal: AbortSignal;
+        dispose: () => void;
+    } {
+        const timeoutMs = options.timeoutMs ?? this.mefsConfig?.MEFS_REQUEST_TIMEOUT_MS ?? 600000;
+        const timeoutController = new AbortController();
+        const timer = setTimeout(() => {
+            timeoutController.abort(
+                new MefsTimeoutError(`MEFS operation timed out after ${timeoutMs}ms`)
+            );
+        }, timeoutMs);
+
+        const signals = [timeoutController.signal, this.shutdownController.signal];
+        if (options.signal) {
+            signals.push(options.signal);
+        }
+        return {
+            signal: AbortSignal.any(signals),
+            dispose: () => clearTimeout(timer),
+        };
+    }
+
+    /**
+     * Run a login or refresh, or join the one already in flight so that
+     * concurrent callers share a single authentication round-trip
+     */
+    private runSessionTask(
+        task: (signal: AbortSignal) => Promise<void>,
+        signal?: AbortSignal
+    ): Promise<void> {
+        if (!this.sessionPromise) {
+            // The shared task is not bound to any single caller's signal
+            const scope = this.createRequestScope();
+            this.sessionPromise = task(scope.signal).finally(() => {
+                scope.dispose();
+                this.sessionPromise = null;
+            });
         }
+        return raceSignal(this.sessionPromise, signal);
     }
 
     /**
      * Login to MEFS system
+     * @param signal - stops waiting for the login when aborted
      */
-    private async loginToMEFS(): Promise<void> {
+    private loginToMEFS(signal?: AbortSignal): Promise<void> {
+        return this.runSessionTask((taskSignal) => this.performLogin(taskSignal), signal);
+    }
+
+    private async performLogin(signal: AbortSignal): Promise<void> {
         if (!this.mefsConfig) {
             throw new Error("Storage config not initialized");
         }
@@ -55,19 +576,20 @@ export class StorageService extends Service {
             challengeUrl.searchParams.set("chainid", this.mefsConfig.MEFS_CHAIN_ID.toString());
 
             const origin = this.mefsConfig.MEFS_ORIGIN || this.mefsConfig.MEFS_API_URL;
-            const challengeResponse = await fetch(challengeUrl.toString(), {
+            const challengeResponse = await this.sendRequest(challengeUrl.toString(), "/challenge", () => ({
                 method: "GET",
                 headers: {
                     "Origin": origin,
                 },
-            });
+            }), { signal });
 
             if (!challengeResponse.ok) {
-                const errorText = await challengeResponse.text();
-                throw new Error(`Failed to get challenge: ${challengeResponse.status} ${errorText}`);
+                throw toAuthError(
+                    await errorFromResponse(challengeResponse, "/challenge", "Failed to get challenge")
+                );
             }
 
-            const challengeMessage = await challengeResponse.text();
+            const challengeMessage = await this.readBody(() => challengeResponse.text(), signal, "/challenge");
             logger.info("Challenge message received");
 
             // 2. Sign message
@@ -83,7 +605,7 @@ export class StorageService extends Service {
 
             // 3. Login
             const loginUrl = new URL(this.mefsConfig.MEFS_API_URL + "/login");
-            const loginResponse = await fetch(loginUrl.toString(), {
+            const loginResponse = await this.sendRequest(loginUrl.toString(), "/login", () => ({
                 method: "POST",
                 headers: {
                     "Content-Type": "application/json",
@@ -92,16 +614,18 @@ export class StorageService extends Service {
                     message: challengeMessage,
                     signature: signature,
                 }),
-            });
+            }), { signal });
 
             if (!loginResponse.ok) {
-                const errorText = await loginResponse.text();
-                throw new Error(`Failed to login: ${loginResponse.status} ${errorText}`);
+                throw toAuthError(
+                    await errorFromResponse(loginResponse, "/login", "Failed to login")
+                );
             }
 
-            const loginResult = await loginResponse.json();
-            this.accessToken = loginResult.accessToken;
-            this.refreshToken = loginResult.refreshToken;
+            const loginResult = await this.readBody(() => loginResponse.json(), signal, "/login");
+            this.refreshToken = null;
+            this.setSession(loginResult, "/login");
+            await this.persistSession();
             logger.info("✅ Successfully logged in to MEFS");
         } catch (error: any) {
             logger.error(error, "❌ Failed to login to MEFS");
@@ -109,12 +633,398 @@ export class StorageService extends Service {
         }
     }
 
+    /**
+     * Exchange the stored refresh token for a new access token.
+     * Falls back to a full challenge/sign/login when the refresh token is
+     * missing or rejected.
+     */
+    private refreshSession(signal?: AbortSignal): Promise<void> {
+        return this.runSessionTask((taskSignal) => this.performRefresh(taskSignal), signal);
+    }
+
+    private async performRefresh(signal: AbortSignal): Promise<void> {
+        if (!this.mefsConfig) {
+            throw new Error("Storage config not initialized");
+        }
+
+        if (this.refreshToken) {
+            try {
+                const refreshUrl = new URL(this.mefsConfig.MEFS_API_URL + "/refresh");
+                const refreshResponse = await this.sendRequest(refreshUrl.toString(), "/refresh", () => ({
+                    method: "POST",
+                    headers: {
+                        "Authorization": `Bearer ${this.refreshToken}`,
+                    },
+                }), { signal });
+
+                if (!refreshResponse.ok) {
+                    throw await errorFromResponse(refreshResponse, "/refresh", "Failed to refresh token");
+                }
+
+                const refreshResult = await this.readBody(() => refreshResponse.json(), signal, "/refresh");
+                this.setSession(refreshResult, "/refresh");
+                this.tokenLastRefresh = Date.now();
+                await this.persistSession();
+                logger.info("✅ MEFS access token refreshed");
+                return;
+            } catch (error: any) {
+                if (signal.aborted) {
+                    throw error;
+                }
+                logger.warn(`Failed to refresh MEFS access token, logging in again: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        this.accessToken = null;
+        this.refreshToken = null;
+        await this.performLogin(signal);
+        this.tokenLastRefresh = Date.now();
+        await this.persistSession();
+    }
+
+    /**
+     * Store the tokens from a login or refresh response and work out when the
+     * access token expires, from its JWT `exp` claim or a server-provided TTL
+     * @throws MefsAuthError if the response has no access token
+     */
+    private setSession(result: any, endpoint: string): void {
+        if (typeof result?.accessToken !== "string" || !result.accessToken) {
+            throw new MefsAuthError(`MEFS response did not contain an access token (${endpoint})`, { endpoint });
+        }
+        const now = Date.now();
+        this.accessToken = result.accessToken;
+        if (result.refreshToken) {
+            this.refreshToken = result.refreshToken;
+        }
+
+        const claims = decodeJwtTimes(result.accessToken);
+        const ttl = Number(result.expiresIn ?? result.expires_in);
+        this.tokenIssuedAt = claims?.issuedAt ?? now;
+        if (claims?.expiresAt) {
+            this.tokenExpiresAt = claims.expiresAt;
+        } else if (Number.isFinite(ttl) && ttl > 0) {
+            this.tokenExpiresAt = now + ttl * 1000;
+        } else {
+            this.tokenExpiresAt = null;
+        }
+    }
+
+    /**
+     * Cache key of the persisted session, unique per wallet and API URL
+     */
+    private getSessionCacheKey(): string {
+        const config = this.getConfig();
+        return `mefs:session:${config.MEFS_WALLET_ADDRESS.toLowerCase()}:${config.MEFS_API_URL}`;
+    }
+
+    /**
+     * Key used to encrypt the persisted session, derived from the agent's
+     * wallet key and secret salt
+     */
+    private getSessionCacheCipherKey(): Buffer {
+        return deriveKey(this.getConfig().MEFS_PRIVATE_KEY, "mefs-session-cache", getSalt());
+    }
+
+    /**
+     * Save the current session to the runtime cache so that it survives restarts
+     */
+    private async persistSession(): Promise<void> {
+        if (!this.accessToken || !this.mefsConfig) {
+            return;
+        }
+        try {
+            const session: CachedSession = {
+                accessToken: this.accessToken,
+                refreshToken: this.refreshToken,
+                issuedAt: this.tokenIssuedAt,
+                expiresAt: this.tokenExpiresAt,
+                lastRefresh: this.tokenLastRefresh,
+            };
+            await this.runtime.setCache<string>(
+                this.getSessionCacheKey(),
+                encryptString(JSON.stringify(session), this.getSessionCacheCipherKey())
+            );
+        } catch (error: any) {
+            logger.warn(`Failed to persist MEFS session: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Load a session saved by a previous run, if it can still be used
+     * @returns whether a session was restored
+     */
+    private async restoreSession(): Promise<boolean> {
+        try {
+            const payload = await this.runtime.getCache<string>(this.getSessionCacheKey());
+            if (!payload) {
+                return false;
+            }
+            const session: CachedSession = JSON.parse(
+                decryptString(payload, this.getSessionCacheCipherKey())
+            );
+
+            // An expired access token is still useful when it can be refreshed
+            const expired = session.expiresAt !== null && session.expiresAt <= Date.now();
+            if (!session.accessToken || (expired && !session.refreshToken)) {
+                await this.runtime.deleteCache(this.getSessionCacheKey());
+                return false;
+            }
+
+            this.accessToken = session.accessToken;
+            this.refreshToken = session.refreshToken;
+            this.tokenIssuedAt = session.issuedAt;
+            this.tokenExpiresAt = session.expiresAt;
+            this.tokenLastRefresh = session.lastRefresh;
+            logger.info("Restored MEFS session from cache");
+            return true;
+        } catch (error: any) {
+            logger.warn(`Failed to restore MEFS session: ${error instanceof Error ? error.message : String(error)}`);
+            return false;
+        }
+    }
+
+    /**
+     * Make sure there is an access token valid for at least `minValidityMs`,
+     * logging in or refreshing as needed
+     */
+    private async ensureSession(
+        minValidityMs: number = TOKEN_REFRESH_MARGIN_MS,
+        signal?: AbortSignal
+    ): Promise<void> {
+        if (!this.accessToken) {
+            await this.loginToMEFS(signal);
+            return;
+        }
+        if (this.tokenExpiresAt !== null && this.tokenExpiresAt - Date.now() < minValidityMs) {
+            logger.info("MEFS access token is about to expire, renewing session");
+            await this.refreshSession(signal);
+        }
+    }
+
+    /**
+     * Get the lifetime of the current access token, e.g. for health checks
+     */
+    getTokenState(): TokenState {
+        return {
+            authenticated: !!this.accessToken,
+            issuedAt: this.tokenIssuedAt,
+            expiresAt: this.tokenExpiresAt,
+            lastRefresh: this.tokenLastRefresh,
+        };
+    }
+
+    /**
+     * Get the retry policy from the storage config
+     */
+    private getRetryPolicy(): RetryPolicy {
+        return {
+            maxAttempts: this.mefsConfig?.MEFS_RETRY_MAX_ATTEMPTS ?? 3,
+            baseDelayMs: this.mefsConfig?.MEFS_RETRY_BASE_DELAY_MS ?? 500,
+            jitter: this.mefsConfig?.MEFS_RETRY_JITTER ?? 0.2,
+            retryableStatusCodes: this.mefsConfig?.MEFS_RETRY_STATUS_CODES ?? [408, 429, 500, 502, 503, 504],
+        };
+    }
+
+    /**
+     * Send a request to MEFS, retrying transient failures with exponential
+     * backoff and turning connection failures into MefsNetworkError
+     * @param url - request URL
+     * @param endpoint - MEFS endpoint, reported in errors
+     * @param buildInit - builds the request options; called again for every
+     *                    attempt so that request bodies can be recreated
+     * @param options.idempotent - whether the request may be repeated safely
+     *                             (default: true for GET and HEAD)
+     * @param options.signal - aborts the request, including reading its body
+     * @param options.replayable - whether `buildInit` may be called again for a
+     *                             retry (default: true)
+     */
+    private async sendRequest(
+        url: string,
+        endpoint: string,
+        buildInit: () => RequestInit,
+        options: { idempotent?: boolean; signal?: AbortSignal; replayable?: boolean } = {}
+    ): Promise<Response> {
+        const policy = this.getRetryPolicy();
+        if (options.replayable === false) {
+            policy.maxAttempts = 1;
+        }
+        const connectTimeoutMs = this.mefsConfig?.MEFS_CONNECT_TIMEOUT_MS ?? 30000;
+        const signal = options.signal ?? this.shutdownController.signal;
+        let attempt = 1;
+
+        while (true) {
+            if (signal.aborted) {
+                throw abortReason(signal, endpoint);
+            }
+
+            const init = buildInit();
+            const method = (init.method || "GET").toUpperCase();
+            const safe = options.idempotent ?? (method === "GET" || method === "HEAD");
+            const canRetry = attempt < policy.maxAttempts;
+
+            // The connect timeout only covers the wait for the response headers
+            const connectController = new AbortController();
+            const connectTimer = setTimeout(() => {
+                connectController.abort(new MefsTimeoutError(
+                    `MEFS did not respond within ${connectTimeoutMs}ms (${endpoint})`,
+                    { endpoint }
+                ));
+            }, connectTimeoutMs);
+
+            let response: Response;
+            try {
+                response = await fetch(url, {
+                    ...init,
+                    signal: AbortSignal.any([signal, connectController.signal]),
+                });
+            } catch (error: any) {
+                if (signal.aborted) {
+                    throw abortReason(signal, endpoint);
+                }
+                const failure = connectController.signal.aborted
+                    ? connectController.signal.reason as MefsError
+                    : new MefsNetworkError(
+                        `Failed to reach MEFS (${endpoint}): ${error instanceof Error ? error.message : String(error)}`,
+                        { endpoint, cause: error }
+                    );
+                // A timed out request may have reached the server already
+                const retryable = connectController.signal.aborted
+                    ? safe
+                    : isRetryableFetchError(error, safe);
+                if (!canRetry || !retryable) {
+                    throw failure;
+                }
+                const delay = getBackoffDelay(policy, attempt);
+                logger.warn(`MEFS request to ${endpoint} failed, retrying in ${delay}ms (attempt ${attempt}/${policy.maxAttempts})`);
+                await this.backoff(delay, signal, endpoint);
+                attempt++;
+                continue;
+            } finally {
+                clearTimeout(connectTimer);
+            }
+
+            if (!canRetry || !isRetryableStatus(policy, response.status, safe)) {
+                return response;
+            }
+
+            const retryAfter = response.status === 429 || response.status === 503
+                ? parseRetryAfter(response.headers.get("retry-after"))
+                : null;
+            const delay = retryAfter ?? getBackoffDelay(policy, attempt);
+            await response.body?.cancel();
+            logger.warn(`MEFS request to ${endpoint} returned ${response.status}, retrying in ${delay}ms (attempt ${attempt}/${policy.maxAttempts})`);
+            await this.backoff(delay, signal, endpoint);
+            attempt++;
+        }
+    }
+
+    /**
+     * Wait between retries, giving up early when the signal aborts
+     */
+    private async backoff(delay: number, signal: AbortSignal, endpoint: string): Promise<void> {
+        try {
+            await sleep(delay, signal);
+        } catch {
+            throw abortReason(signal, endpoint);
+        }
+    }
+
+    /**
+     * Read a response body, reporting an abort while reading as a MefsError
+     */
+    private async readBody<T>(
+        read: () => Promise<T>,
+        signal: AbortSignal,
+        endpoint: string
+    ): Promise<T> {
+        try {
+            return await read();
+        } catch (error: any) {
+            if (signal.aborted) {
+                throw abortReason(signal, endpoint);
+            }
+            throw new MefsNetworkError(
+                `Failed to read MEFS response (${endpoint}): ${error instanceof Error ? error.message : String(error)}`,
+                { endpoint, cause: error }
+            );
+        }
+    }
+
+    /**
+     * Send an authenticated request. On a 401 the session is renewed and the
+     * request is retried once.
+     * @param url - request URL
+     * @param endpoint - MEFS endpoint, reported in errors
+     * @param buildInit - builds the request options; called again for the retry
+     *                    so that request bodies can be recreated
+     * @param options.minValidityMs - minimum remaining token lifetime before the request starts
+     * @param options.signal - aborts the request, including reading its body
+     * @param options.replayable - whether `buildInit` may be called again; if
+     *                             not, a 401 renews the session for later calls
+     *                             but the rejected response is returned
+     * @param options.idempotent - whether the request may be repeated safely
+     *                             (default: true for GET and HEAD)
+     */
+    private async authorizedFetch(
+        url: string,
+        endpoint: string,
+        buildInit: () => RequestInit,
+        options: {
+            minValidityMs?: number;
+            signal?: AbortSignal;
+            replayable?: boolean;
+            idempotent?: boolean;
+        } = {}
+    ): Promise<Response> {
+        const { minValidityMs = TOKEN_REFRESH_MARGIN_MS, signal, replayable = true, idempotent } = options;
+        await this.ensureSession(minValidityMs, signal);
+
+        let sentToken: string | null = null;
+        const send = () => this.sendRequest(url, endpoint, () => {
+            const init = buildInit();
+            sentToken = this.accessToken;
+            return {
+                ...init,
+                headers: {
+                    ...(init.headers as Record<string, string> | undefined),
+                    ...this.getAuthHeaders(),
+                },
+            };
+        }, { signal, replayable, idempotent });
+
+        const response = await send();
+        if (response.status !== 401) {
+            return response;
+        }
+
+        if (!replayable) {
+            // The request cannot be sent again, so only renew the session
+            // for the calls that follow
+            if (this.accessToken === sentToken) {
+                await this.refreshSession(signal).catch((error: any) => {
+                    logger.warn(`Failed to renew MEFS session: ${error instanceof Error ? error.message : String(error)}`);
+                });
+            }
+            return response;
+        }
+
+        await response.body?.cancel();
+        // Another request may already have renewed the session meanwhile
+        if (this.accessToken === sentToken) {
+            logger.info("MEFS access token rejected, renewing session");
+            await this.refreshSession(signal);
+        } else if (this.sessionPromise) {
+            await raceSignal(this.sessionPromise, signal);
+        }
+        return send();
+    }
+
     /**
      * Get authentication headers
      */
     private getAuthHeaders(): Record<string, string> {
         if (!this.accessToken) {
-            throw new Error("Not authenticated. Please initialize storage first.");
+            throw new MefsAuthError("Not authenticated. Please initialize storage first.");
         }
         return {
             "Authorization": `Bearer ${this.accessToken}`,
@@ -122,7 +1032,18 @@ export class StorageService extends Service {
     }
 
     async stop(): Promise<void> {
+        // Cancel in-flight requests, and start over with a fresh controller
+        // in case the service is initialized again
+        this.shutdownController.abort(new MefsAbortError("Storage service stopped"));
+        this.shutdownController = new AbortController();
         this.mefsConfig = null;
+        this.accessToken = null;
+        this.refreshToken = null;
+        this.tokenIssuedAt = null;
+        this.tokenExpiresAt = null;
+        this.tokenLastRefresh = null;
+        this.contentKey = null;
+        this.keyStoreKey = null;
     }
 
     getConfig() {
@@ -136,131 +1057,1451 @@ export class StorageService extends Service {
      * Upload file to MEFS
      * @param buffer - file content
      * @param filename - file name
-     * @param publicFile - whether file is public (default: false)
+     * @param publicFile - whether file is public (default: false), or all the upload options
      * @param key - encryption key (optional, default key will be used if not provided and file is not public)
+     * @param options - cancellation signal and timeout
      * @returns CID (content identifier)
      */
     async uploadFile(
         buffer: Buffer,
         filename: string,
-        publicFile: boolean = false,
-        key?: string
+        publicFile: boolean | UploadOptions = false,
+        key?: string,
+        options: RequestOptions = {}
     ): Promise<string> {
-        if (!this.mefsConfig) {
-            throw new Error("Storage config not initialized");
-        }
-        if (!this.accessToken) {
-            await this.loginToMEFS();
+        const uploadOptions: UploadOptions = this.withGeneratedKey(typeof publicFile === "boolean"
+            ? { ...options, public: publicFile, key }
+            : { ...options, ...publicFile });
+        uploadOptions.contentType = detectMimeType(
+            buffer.subarray(0, MIME_SNIFF_LENGTH),
+            filename,
+            uploadOptions.contentType
+        );
+        const expectedCid = this.isStoredAsIs(uploadOptions) ? this.computeCid(buffer) : null;
+        const cid = await this.uploadUnlessStored(expectedCid, uploadOptions, async () => {
+            await this.checkQuota(buffer.length, uploadOptions);
+            const sendWhole = () => this.sendUpload(filename, () => buffer, uploadOptions);
+            const uploaded = this.shouldUploadInChunks(buffer.length, uploadOptions)
+                ? await this.sendChunkedUpload(filename, {
+                    identity: createHash("sha256").update(buffer).digest("hex"),
+                    size: buffer.length,
+                    read: async (offset, length) => buffer.subarray(offset, offset + length),
+                    close: async () => undefined,
+                }, uploadOptions, sendWhole)
+                : await sendWhole();
+            this.takeFromQuota(buffer.length, uploadOptions);
+            return uploaded;
+        });
+        await this.recordUpload(cid, filename, buffer.length, uploadOptions);
+        return cid;
+    }
+
+    /**
+     * Upload a stream to MEFS without buffering it in memory. A stream can
+     * only be read once, so failed attempts are not retried, and streams are
+     * never deduplicated. The storage left is only checked beforehand when
+     * `options.size` is given; otherwise MEFS has the last word.
+     * @param readable - file content
+     * @param filename - file name
+     * @param options - visibility, key, size, cancellation signal and timeout
+     * @returns CID (content identifier)
+     */
+    async uploadStream(
+        readable: Readable | ReadableStream<Uint8Array>,
+        filename: string,
+        options: UploadOptions = {}
+    ): Promise<string> {
+        const { head, content } = await peekStream(
+            readable instanceof Readable
+                ? readable
+                : Readable.fromWeb(readable as NodeReadableStream<Uint8Array>),
+            MIME_SNIFF_LENGTH
+        );
+        let size = 0;
+        const counted = pipeStreams(content, new Transform({
+            transform(chunk: Buffer, _encoding, done) {
+                size += chunk.length;
+                done(null, chunk);
+            },
+        }), () => undefined);
+        const uploadOptions = this.withGeneratedKey({
+            ...options,
+            contentType: detectMimeType(head, filename, options.contentType),
+        });
+        if (options.size !== undefined) {
+            try {
+                await this.checkQuota(options.size, uploadOptions);
+            } catch (error: any) {
+                counted.destroy();
+                throw error;
+            }
         }
+        const cid = await this.sendUpload(filename, () => counted, uploadOptions, false);
+        this.takeFromQuota(size, uploadOptions);
+        await this.recordUpload(cid, filename, size, uploadOptions);
+        return cid;
+    }
 
+    /**
+     * Upload a file from disk to MEFS, streaming its content. The file is
+     * reopened for every attempt, so failed attempts can be retried. Public
+     * files are read once more beforehand to compute their CID.
+     * @param filePath - path of the file
+     * @param options - visibility, key, file name (default: base name of the path),
+     *                  cancellation signal and timeout
+     * @returns CID (content identifier)
+     */
+    async uploadPath(
+        filePath: string,
+        options: UploadOptions & { filename?: string } = {}
+    ): Promise<string> {
+        const stats = await fs.promises.stat(filePath);
+        if (!stats.isFile()) {
+            throw new Error(`Not a file: ${filePath}`);
+        }
+        const filename = options.filename || path.basename(filePath);
+        const handle = await fs.promises.open(filePath, "r");
+        let head: Buffer;
         try {
-            const uploadUrl = new URL(this.mefsConfig.MEFS_API_URL + "/mefs/");
+            const buffer = Buffer.alloc(Math.min(MIME_SNIFF_LENGTH, stats.size));
+            const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+            head = buffer.subarray(0, bytesRead);
+        } catch (error: any) {
+            await handle.close();
+            throw error;
+        }
+        options = this.withGeneratedKey({ ...options, contentType: detectMimeType(head, filename, options.contentType) });
 
-            // Use FormData (Node.js 18+ supports global FormData)
-            let FormDataClass: any;
-            let isGlobalFormData = false;
-            try {
-                FormDataClass = (globalThis as any).FormData;
-                if (FormDataClass) {
-                    isGlobalFormData = true;
+        try {
+            const expectedCid = this.isStoredAsIs(options) ? await this.computeCidOfPath(filePath) : null;
+            const cid = await this.uploadUnlessStored(expectedCid, options, async () => {
+                await this.checkQuota(stats.size, options);
+                const sendWhole = () => this.sendUpload(
+                    filename,
+                    () => fs.createReadStream(filePath),
+                    { ...options, size: stats.size }
+                );
+                let uploaded: string;
+                if (this.shouldUploadInChunks(stats.size, options)) {
+                    uploaded = await this.sendChunkedUpload(filename, {
+                        identity: `${path.resolve(filePath)}:${stats.size}:${stats.mtimeMs}`,
+                        size: stats.size,
+                        read: async (offset, length) => {
+                            const chunk = Buffer.alloc(length);
+                            const { bytesRead } = await handle.read(chunk, 0, length, offset);
+                            return chunk.subarray(0, bytesRead);
+                        },
+                        close: () => handle.close(),
+                    }, options, sendWhole);
                 } else {
-                    // Try using the form-data package
-                    FormDataClass = require("form-data");
+                    await handle.close();
+                    uploaded = await sendWhole();
                 }
-            } catch {
-                throw new Error("FormData is not available. Please install 'form-data' package or use Node.js 18+");
-            }
-
-            const formData = new FormDataClass();
-
-            // Handle different FormData implementations
-            if (isGlobalFormData) {
-                // Node.js 18+ global FormData expects Blob
-                const BlobClass = (globalThis as any).Blob || require("buffer").Blob;
-                const blob = new BlobClass([buffer], { type: "application/octet-stream" });
-                formData.append("file", blob, filename);
-            } else {
-                // form-data package accepts Buffer directly
-                formData.append("file", buffer, filename);
-            }
-
-            if (publicFile) {
-                formData.append("public", "true");
-            } else if (key) {
-                formData.append("key", key);
-            }
-
-            const headers = this.getAuthHeaders();
-
-            // For form-data package, we need to get headers from formData
-            let finalHeaders: Record<string, string> = { ...headers };
-            if (!isGlobalFormData && formData.getHeaders) {
-                // form-data package provides getHeaders() method
-                const formHeaders = formData.getHeaders();
-                finalHeaders = { ...headers, ...formHeaders };
-            }
-
-            const response = await fetch(uploadUrl.toString(), {
-                method: "POST",
-                headers: finalHeaders,
-                body: formData as any,
+                this.takeFromQuota(stats.size, options);
+                return uploaded;
             });
-
-            if (!response.ok) {
-                const errorText = await response.text();
-                throw new Error(`Failed to upload file: ${response.status} ${errorText}`);
-            }
-
-            const result = await response.json();
-            logger.info(`File uploaded successfully. CID: ${result.Mid}`);
-            return result.Mid;
-        } catch (error: any) {
-            logger.error(error, "Failed to upload file to MEFS");
-            throw error;
+            await this.recordUpload(cid, filename, stats.size, options);
+            return cid;
+        } finally {
+            // Closing again is harmless, and covers a skipped or failed upload
+            await handle.close();
         }
     }
 
     /**
-     * Retrieve file from MEFS
-     * @param cid - content identifier
-     * @param key - decryption key (optional, required for encrypted files)
-     * @returns file buffer
+     * Upload a message attachment. Local paths and `file://` URLs are read
+     * from disk, but only inside the agent's uploads directory; relative
+     * paths are taken from there. `http(s)://` URLs are streamed from public
+     * hosts and `data:` URIs are decoded, within MEFS_ATTACHMENT_MAX_BYTES
+     * and MEFS_ATTACHMENT_TIMEOUT_MS.
+     * @param url - location of the attachment
+     * @param options - visibility, key, file name (default: the attachment's own
+     *                  name), cancellation signal and timeout
+     * @returns CID (content identifier)
+     */
+    async uploadAttachment(
+        url: string,
+        options: UploadOptions & { filename?: string } = {}
+    ): Promise<string> {
+        const config = this.getConfig();
+        options = { ...options, context: { source: "attachment", ...options.context } };
+        const source = await openAttachment(url, {
+            maxBytes: config.MEFS_ATTACHMENT_MAX_BYTES,
+            timeoutMs: config.MEFS_ATTACHMENT_TIMEOUT_MS,
+            localDir: path.join(getUploadsAgentsDir(), this.runtime.agentId),
+            signal: options.signal,
+        });
+
+        switch (source.type) {
+            case "file":
+                return this.uploadPath(source.path, options);
+            case "buffer":
+                return this.uploadFile(source.content, options.filename || source.filename || "file", {
+                    ...options,
+                    contentType: options.contentType ?? source.contentType,
+                });
+            case "stream":
+                try {
+                    return await this.uploadStream(source.content, options.filename || source.filename || "file", {
+                        ...options,
+                        size: source.size,
+                        contentType: options.contentType ?? source.contentType,
+                    });
+                } finally {
+                    source.content.destroy();
+                }
+        }
+    }
+
+    /**
+     * Get the client-side encryption key. It is derived from a signature of a
+     * fixed message by the configured wallet, so it never needs to be stored.
+     */
+    private async getContentKey(): Promise<Buffer> {
+        if (!this.contentKey) {
+            const { ethers } = await import("ethers");
+            const wallet = new ethers.Wallet(this.getConfig().MEFS_PRIVATE_KEY);
+            const signature = await wallet.signMessage(CONTENT_KEY_MESSAGE);
+            this.contentKey = deriveKey(Buffer.from(signature.slice(2), "hex"), "mefs-content-encryption");
+        }
+        return this.contentKey;
+    }
+
+    /**
+     * Get the key wrapping the key store entries. Like the content key, it is
+     * derived from a wallet signature, so another wallet cannot unwrap them.
+     */
+    private async getKeyStoreKey(): Promise<Buffer> {
+        if (!this.keyStoreKey) {
+            const { ethers } = await import("ethers");
+            const wallet = new ethers.Wallet(this.getConfig().MEFS_PRIVATE_KEY);
+            const signature = await wallet.signMessage(KEY_STORE_MESSAGE);
+            this.keyStoreKey = deriveKey(Buffer.from(signature.slice(2), "hex"), "mefs-key-store");
+        }
+        return this.keyStoreKey;
+    }
+
+    /**
+     * Re-upload a private file under a new random key, save the new key and
+     * delete the copy under the old key, like `deleteFile` does. If that
+     * deletion fails, the old copy keeps its key so that it can still be
+     * read or deleted, and the new copy stays recorded as an upload.
+     * @param cid - content identifier of the file
+     * @param options - cancellation signal and timeout
+     * @returns CID of the new copy
+     */
+    async rotateFileKey(cid: string, options: RequestOptions = {}): Promise<string> {
+        const oldKey = await this.keys.getKey(cid);
+        const newKey = this.keys.generateKey();
+        // The new copy is recorded like the original upload
+        const [original] = await this.uploads.query({ cid, limit: 1 });
+        const content = await this.retrieveStream(cid, { ...options, key: oldKey });
+        let newCid: string;
+        try {
+            newCid = await this.uploadStream(content, original?.filename ?? cid, {
+                ...options,
+                public: false,
+                key: newKey,
+                contentType: original?.contentType,
+                context: original && {
+                    entityId: original.entityId,
+                    roomId: original.roomId,
+                    worldId: original.worldId,
+                    source: original.source,
+                },
+            });
+        } finally {
+            content.destroy();
+        }
+
+        await this.keys.saveKey(newCid, newKey, newCid !== cid ? cid : undefined);
+        if (newCid !== cid) {
+            await this.deleteFile(cid, options);
+        }
+        logger.info(`Rotated key of file ${cid}, new CID: ${newCid}`);
+        return newCid;
+    }
+
+    /**
+     * Give an upload with `generateKey` a new random key. A chunked upload
+     * replaces it with the key of the upload it resumes.
+     */
+    private withGeneratedKey(options: UploadOptions): UploadOptions {
+        return options.generateKey && !options.public
+            ? { ...options, key: this.keys.generateKey() }
+            : options;
+    }
+
+    /**
+     * Save the generated key of a finished upload, and add the upload to the
+     * registry. The file is stored whether or not the registry is updated,
+     * so a registry failure is only logged.
+     */
+    private async recordUpload(cid: string, filename: string, size: number, options: UploadOptions): Promise<void> {
+        if (options.generateKey && options.key) {
+            await this.keys.saveKey(cid, options.key);
+        }
+        try {
+            await this.uploads.record({
+                cid,
+                filename,
+                size,
+                contentType: options.contentType || DEFAULT_MIME_TYPE,
+                public: !!options.public,
+            }, options.context);
+        } catch (error: any) {
+            logger.warn(`Failed to record upload of ${cid}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Compute the CID MEFS assigns to some content, with the layout set by
+     * MEFS_CID_VERSION, MEFS_CID_CHUNK_SIZE and MEFS_CID_RAW_LEAVES. This is
+     * the CID of the stored bytes: content that is encrypted before it is
+     * stored gets another CID.
+     * @param content - whole content
+     * @param options - layout overriding the configured one
+     * @returns CID (content identifier)
+     */
+    computeCid(content: Uint8Array, options: Partial<DagLayout> = {}): string {
+        return computeCid(content, { ...this.getDagLayout(), ...options });
+    }
+
+    /**
+     * Compute the CID of a file on disk without loading it in memory
+     */
+    private async computeCidOfPath(filePath: string): Promise<string> {
+        const builder = new DagBuilder(this.getDagLayout());
+        for await (const chunk of fs.createReadStream(filePath)) {
+            builder.update(chunk as Buffer);
+        }
+        return builder.finish().toString();
+    }
+
+    private getDagLayout(): Partial<DagLayout> {
+        const config = this.getConfig();
+        return {
+            version: config.MEFS_CID_VERSION,
+            rawLeaves: config.MEFS_CID_VERSION === 1 && config.MEFS_CID_RAW_LEAVES,
+            chunkSize: config.MEFS_CID_CHUNK_SIZE,
+        };
+    }
+
+    /**
+     * Whether MEFS stores an upload as it is, so that its CID can be computed
+     * beforehand. Private files are encrypted, by MEFS or on the agent.
+     */
+    private isStoredAsIs(options: UploadOptions): boolean {
+        return !!options.public && !options.key && !this.shouldEncrypt(options);
+    }
+
+    /**
+     * Upload content, unless MEFS already stores it under its precomputed
+     * CID. The CID MEFS assigns is checked against the precomputed one.
+     * @param expectedCid - precomputed CID, or null if it cannot be computed
+     * @param options - upload options
+     * @param upload - sends the content
+     * @returns CID (content identifier)
+     */
+    private async uploadUnlessStored(
+        expectedCid: string | null,
+        options: UploadOptions,
+        upload: () => Promise<string>
+    ): Promise<string> {
+        if (expectedCid && options.dedupe !== false && await this.isStored(expectedCid, options)) {
+            logger.info(`File already stored on MEFS, skipping upload. CID: ${expectedCid}`);
+            return expectedCid;
+        }
+
+        const cid = await upload();
+        if (expectedCid && !isSameCid(cid, expectedCid)) {
+            logger.warn(
+                `MEFS assigned CID ${cid} but ${expectedCid} was expected, `
+                + "check MEFS_CID_VERSION, MEFS_CID_CHUNK_SIZE and MEFS_CID_RAW_LEAVES"
+            );
+        }
+        return cid;
+    }
+
+    /**
+     * Whether MEFS stores a public file, checked with a HEAD request. Any
+     * failure other than a cancellation counts as not stored.
+     */
+    private async isStored(cid: string, options: RequestOptions): Promise<boolean> {
+        const scope = this.createRequestScope(options);
+        try {
+            const response = await this.requestHead(cid, scope.signal);
+            return response.ok;
+        } catch (error: any) {
+            if (error instanceof MefsAbortError || error instanceof MefsTimeoutError) {
+                throw error;
+            }
+            logger.debug(`Could not check whether ${cid} is stored: ${error instanceof Error ? error.message : String(error)}`);
+            return false;
+        } finally {
+            scope.dispose();
+        }
+    }
+
+    /**
+     * Whether an upload is encrypted on the agent
+     */
+    private shouldEncrypt(options: UploadOptions): boolean {
+        if (options.encrypt !== undefined) {
+            return options.encrypt;
+        }
+        return !!this.mefsConfig?.MEFS_CLIENT_ENCRYPTION && !options.public;
+    }
+
+    /**
+     * MIME type sent to MEFS with an upload. Content encrypted on the agent
+     * is sent as opaque bytes, so that its type does not leak; it is
+     * detected again once decrypted.
+     */
+    private getStoredContentType(options: UploadOptions): string {
+        return this.shouldEncrypt(options) ? DEFAULT_MIME_TYPE : options.contentType || DEFAULT_MIME_TYPE;
+    }
+
+    /**
+     * Get the key for content encrypted on the agent
+     * @throws MefsDecryptionError if it was encrypted with another key
+     */
+    private async getKeyForHeader(header: EncryptionHeader, endpoint: string): Promise<Buffer> {
+        const key = await this.getContentKey();
+        checkContentKey(header, key, endpoint);
+        return key;
+    }
+
+    /**
+     * Whether content of the given size is uploaded in chunks
+     */
+    private shouldUploadInChunks(size: number, options: UploadOptions): boolean {
+        if (options.chunked !== undefined) {
+            return options.chunked;
+        }
+        return !this.chunkedUploadUnsupported && size >= this.getConfig().MEFS_CHUNKED_UPLOAD_THRESHOLD;
+    }
+
+    /**
+     * Cache key of the progress of a chunked upload. Everything that decides
+     * what MEFS stores is part of it, so that an upload is only resumed with
+     * the options it was started with.
      */
-    async retrieveFile(cid: string, key?: string): Promise<Buffer> {
+    private getUploadSessionCacheKey(identity: string, filename: string, options: UploadOptions): string {
+        const config = this.getConfig();
+        const hash = createHash("sha256").update(JSON.stringify([
+            identity,
+            config.MEFS_API_URL,
+            filename,
+            !!options.public,
+            // A generated key is saved with the session instead
+            options.generateKey ? "generated" : options.key ?? null,
+            this.shouldEncrypt(options),
+            this.getStoredContentType(options),
+        ])).digest("hex");
+        return `mefs:upload:${config.MEFS_WALLET_ADDRESS.toLowerCase()}:${hash}`;
+    }
+
+    /**
+     * Upload content in parts, resuming an earlier interrupted upload of the
+     * same content if there is one. The timeout covers the whole upload, and
+     * the progress is saved after every confirmed part.
+     *
+     * Uses the MEFS multipart API: POST /mefs/multipart starts an upload,
+     * PUT /mefs/multipart/{uploadId}/{part} sends a part, GET
+     * /mefs/multipart/{uploadId} lists the received parts and POST
+     * /mefs/multipart/{uploadId}/complete assembles the file. If MEFS does
+     * not have the multipart API, the content is uploaded with `sendWhole`
+     * instead, and chunks are not tried again.
+     * @param filename - file name
+     * @param source - content to upload; closed when done
+     * @param options - upload options; with `generateKey`, a resumed upload
+     *                  sets `key` to the key it was started with
+     * @param sendWhole - uploads the content in a single request
+     * @returns CID (content identifier)
+     */
+    private async sendChunkedUpload(
+        filename: string,
+        source: ChunkSource,
+        options: UploadOptions,
+        sendWhole: () => Promise<string>
+    ): Promise<string> {
         if (!this.mefsConfig) {
+            await source.close();
             throw new Error("Storage config not initialized");
         }
-        if (!this.accessToken) {
-            await this.loginToMEFS();
+        if (options.public && options.key) {
+            await source.close();
+            throw new Error("A public file cannot be protected with a key");
         }
 
+        const apiUrl = this.mefsConfig.MEFS_API_URL;
+        const cacheKey = this.getUploadSessionCacheKey(source.identity, filename, options);
+        const contentKey = this.shouldEncrypt(options) ? await this.getContentKey() : null;
+        const scope = this.createRequestScope(options);
+        const signal = scope.signal;
+        let cid: string | null = null;
         try {
-            const retrieveUrl = new URL(this.mefsConfig.MEFS_API_URL + "/mefs/" + cid);
+            let session = await this.resumeUploadSession(cacheKey, signal);
+            if (options.generateKey && session?.wrappedKey) {
+                options.key = decryptString(session.wrappedKey, await this.getKeyStoreKey());
+            }
 
-            // According to the documentation, the key can be passed via query string or POST body
-            // Here we use the query string method
-            if (key) {
-                retrieveUrl.searchParams.set("key", key);
+            // A resumed upload goes on with the nonces it started with, and
+            // a new one gets fresh random nonces
+            const noncePrefix = session?.noncePrefix
+                ? Buffer.from(session.noncePrefix, "hex")
+                : randomBytes(NONCE_PREFIX_LENGTH);
+            if (contentKey) {
+                source = encryptChunkSource(source, contentKey, noncePrefix);
             }
+            if (session && session.size !== source.size) {
+                session = null;
+            }
+            if (!session) {
+                const partSize = this.mefsConfig.MEFS_UPLOAD_PART_SIZE;
+                const response = await this.authorizedFetch(apiUrl + "/mefs/multipart", "/mefs/multipart", () => ({
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({
+                        filename,
+                        size: source.size,
+                        partSize,
+                        contentType: this.getStoredContentType(options),
+                        public: options.public ? true : undefined,
+                        key: !options.public && options.key ? options.key : undefined,
+                    }),
+                }), { signal });
+                if (response.status === 404 || response.status === 405 || response.status === 501) {
+                    await response.body?.cancel().catch(() => undefined);
+                } else {
+                    if (!response.ok) {
+                        throw await errorFromResponse(response, "/mefs/multipart", "Failed to start chunked upload");
+                    }
+                    const result = await this.readBody(() => response.json(), signal, "/mefs/multipart");
+                    session = {
+                        uploadId: result.uploadId,
+                        filename,
+                        size: source.size,
+                        partSize,
+                        parts: {},
+                        noncePrefix: contentKey ? noncePrefix.toString("hex") : undefined,
+                        wrappedKey: options.generateKey && options.key
+                            ? encryptString(options.key, await this.getKeyStoreKey())
+                            : undefined,
+                    };
+                    await this.saveUploadSession(cacheKey, session);
+                }
+            }
+            if (session) {
+                cid = await this.sendParts(source, session, cacheKey, signal);
+            }
+        } catch (error: any) {
+            logger.error(error, "Failed to upload file to MEFS in chunks");
+            throw error;
+        } finally {
+            scope.dispose();
+            await source.close();
+        }
+
+        if (cid === null) {
+            this.chunkedUploadUnsupported = true;
+            logger.warn("MEFS does not support chunked uploads, uploading in a single request");
+            return sendWhole();
+        }
+        return cid;
+    }
 
-            const response = await fetch(retrieveUrl.toString(), {
+    /**
+     * Send the parts of a chunked upload that MEFS does not have yet, and
+     * assemble the file
+     * @returns CID (content identifier)
+     */
+    private async sendParts(
+        source: ChunkSource,
+        session: ChunkedUploadSession,
+        cacheKey: string,
+        signal: AbortSignal
+    ): Promise<string> {
+        const apiUrl = this.getConfig().MEFS_API_URL;
+        const partCount = Math.max(1, Math.ceil(source.size / session.partSize));
+        const confirmed = Object.keys(session.parts).length;
+        if (confirmed > 0) {
+            logger.info(`Resuming chunked upload of ${session.filename} at part ${confirmed + 1}/${partCount}`);
+        }
+
+        for (let part = 1; part <= partCount; part++) {
+            if (session.parts[part]) {
+                continue;
+            }
+            const chunk = await source.read((part - 1) * session.partSize, session.partSize);
+            const hash = createHash("sha256").update(chunk).digest("hex");
+            const endpoint = `/mefs/multipart/${session.uploadId}/${part}`;
+
+            // Uploading a part again replaces it, so parts may be retried
+            const response = await this.authorizedFetch(apiUrl + endpoint, endpoint, () => ({
+                method: "PUT",
+                headers: {
+                    "Content-Type": "application/octet-stream",
+                    "X-Content-SHA256": hash,
+                },
+                body: chunk as BodyInit,
+            }), { signal, minValidityMs: UPLOAD_TOKEN_MARGIN_MS, idempotent: true });
+            if (!response.ok) {
+                throw await errorFromResponse(response, endpoint, `Failed to upload part ${part}`);
+            }
+            const result = await this.readBody(() => response.json().catch(() => ({})), signal, endpoint);
+            if (result.hash && result.hash !== hash) {
+                throw new MefsError(`MEFS confirmed part ${part} with a different hash`, { endpoint });
+            }
+
+            session.parts[part] = hash;
+            await this.saveUploadSession(cacheKey, session);
+            logger.debug(`Uploaded part ${part}/${partCount} of ${session.filename}`);
+        }
+
+        const completeEndpoint = `/mefs/multipart/${session.uploadId}/complete`;
+        const response = await this.authorizedFetch(apiUrl + completeEndpoint, completeEndpoint, () => ({
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+                parts: Object.entries(session.parts).map(([part, hash]) => ({ part: Number(part), hash })),
+            }),
+        }), { signal });
+        if (!response.ok) {
+            throw await errorFromResponse(response, completeEndpoint, "Failed to complete chunked upload");
+        }
+        const result = await this.readBody(() => response.json(), signal, completeEndpoint);
+        const cid = result.Mid as string;
+
+        await this.runtime.deleteCache(cacheKey);
+        logger.info(`File uploaded successfully in ${partCount} part(s). CID: ${cid}`);
+        return cid;
+    }
+
+    /**
+     * Load the saved progress of an earlier upload of the same content, and
+     * keep only the parts MEFS still has
+     * @returns the session to continue, or null to start a new upload
+     */
+    private async resumeUploadSession(
+        cacheKey: string,
+        signal: AbortSignal
+    ): Promise<ChunkedUploadSession | null> {
+        const session = await this.runtime.getCache<ChunkedUploadSession>(cacheKey);
+        if (!session) {
+            return null;
+        }
+
+        const endpoint = `/mefs/multipart/${session.uploadId}`;
+        try {
+            const response = await this.authorizedFetch(this.getConfig().MEFS_API_URL + endpoint, endpoint, () => ({
                 method: "GET",
-                headers: this.getAuthHeaders(),
-            });
+            }), { signal });
+            if (!response.ok) {
+                throw await errorFromResponse(response, endpoint, "Failed to get chunked upload status");
+            }
+            const result = await this.readBody(() => response.json(), signal, endpoint);
+            const serverParts = (result.parts ?? []) as Array<{ part: number; hash?: string }>;
+
+            const parts: Record<number, string> = {};
+            for (const { part, hash } of serverParts) {
+                if (session.parts[part] && (!hash || hash === session.parts[part])) {
+                    parts[part] = session.parts[part];
+                }
+            }
+            return { ...session, parts };
+        } catch (error: any) {
+            if (error instanceof MefsNotFoundError) {
+                // MEFS no longer knows the upload, e.g. because it expired
+                await this.runtime.deleteCache(cacheKey);
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Save the progress of a chunked upload. A failure only costs the
+     * ability to resume, so it does not fail the upload.
+     */
+    private async saveUploadSession(cacheKey: string, session: ChunkedUploadSession): Promise<void> {
+        try {
+            await this.runtime.setCache<ChunkedUploadSession>(cacheKey, session);
+        } catch (error: any) {
+            logger.warn(`Failed to save chunked upload progress: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Send a multipart upload to MEFS
+     * @param filename - file name
+     * @param openContent - returns the content; called once per attempt
+     * @param options - upload options
+     * @param replayable - whether `openContent` can be called more than once
+     * @returns CID (content identifier)
+     */
+    private async sendUpload(
+        filename: string,
+        openContent: () => Buffer | Readable,
+        options: UploadOptions,
+        replayable: boolean = true
+    ): Promise<string> {
+        if (!this.mefsConfig) {
+            throw new Error("Storage config not initialized");
+        }
+        if (options.public && options.key) {
+            throw new Error("A public file cannot be protected with a key");
+        }
+
+        let size = options.size;
+        if (this.shouldEncrypt(options)) {
+            const key = await this.getContentKey();
+            const openPlaintext = openContent;
+            let encrypted: Buffer | null = null;
+            openContent = () => {
+                const content = openPlaintext();
+                if (Buffer.isBuffer(content)) {
+                    encrypted ??= encryptContent(key, content);
+                    return encrypted;
+                }
+                return pipeStreams(content, createEncryptStream(key), () => undefined);
+            };
+            size = size !== undefined ? getEncryptedSize(size) : undefined;
+        }
+
+        const scope = this.createRequestScope(options);
+        let contentError: unknown;
+        try {
+            const uploadUrl = new URL(this.mefsConfig.MEFS_API_URL + "/mefs/");
+
+            const fields: Record<string, string> = {};
+            if (options.public) {
+                fields.public = "true";
+            } else if (options.key) {
+                fields.key = options.key;
+            }
+
+            // The body is rebuilt for every attempt, since a stream can only
+            // be consumed once
+            const buildRequest = (): RequestInit => {
+                const content = openContent();
+                if (!Buffer.isBuffer(content)) {
+                    // fetch only reports that the body failed, so keep the reason
+                    content.once("error", (error) => {
+                        contentError = error;
+                    });
+                }
+                const { body, headers } = createMultipartBody(fields, {
+                    field: "file",
+                    filename,
+                    content,
+                    contentType: this.getStoredContentType(options),
+                    size,
+                });
+                return {
+                    method: "POST",
+                    headers,
+                    body: body as BodyInit,
+                    // Required by fetch for streamed request bodies
+                    ...(Buffer.isBuffer(content) ? {} : { duplex: "half" }),
+                } as RequestInit;
+            };
+
+            const response = await this.authorizedFetch(
+                uploadUrl.toString(),
+                "/mefs/",
+                buildRequest,
+                { minValidityMs: UPLOAD_TOKEN_MARGIN_MS, signal: scope.signal, replayable }
+            );
 
             if (!response.ok) {
-                const errorText = await response.text();
-                throw new Error(`Failed to retrieve file: ${response.status} ${errorText}`);
+                throw await errorFromResponse(response, "/mefs/", "Failed to upload file");
+            }
+
+            const result = await this.readBody(() => response.json(), scope.signal, "/mefs/");
+            logger.info(`File uploaded successfully. CID: ${result.Mid}`);
+            return result.Mid;
+        } catch (error: any) {
+            logger.error(error, "Failed to upload file to MEFS");
+            // A failure to read the content is not a network problem
+            throw error instanceof MefsNetworkError && contentError ? contentError : error;
+        } finally {
+            scope.dispose();
+        }
+    }
+
+    /**
+     * Retrieve file from MEFS
+     * @param cid - content identifier
+     * @param key - decryption key (optional, required for encrypted files)
+     * @param options - cancellation signal, timeout and verification mode
+     * @returns file buffer
+     */
+    async retrieveFile(cid: string, key?: string, options: RequestOptions & VerifyOptions = {}): Promise<Buffer> {
+        return (await this.retrieveFileWithMetadata(cid, key, options)).content;
+    }
+
+    /**
+     * Retrieve file from MEFS, with its MIME type and name
+     * @param cid - content identifier
+     * @param key - decryption key (optional, required for encrypted files)
+     * @param options - cancellation signal, timeout and verification mode
+     * @returns file content and metadata
+     * @throws MefsIntegrityError if the content does not match the CID in strict mode
+     */
+    async retrieveFileWithMetadata(
+        cid: string,
+        key?: string,
+        options: RequestOptions & VerifyOptions = {}
+    ): Promise<RetrievedFile> {
+        const scope = this.createRequestScope(options);
+        try {
+            const endpoint = `/mefs/${cid}`;
+            const response = await this.requestFile(cid, key, scope.signal);
+            const arrayBuffer = await this.readBody(() => response.arrayBuffer(), scope.signal, endpoint);
+            let buffer: Buffer = Buffer.from(arrayBuffer);
+            const filename = getFilenameFromContentDisposition(response.headers.get("content-disposition"));
+            let declaredType = response.headers.get("content-type") || undefined;
+
+            // The CID covers the stored bytes, so they are checked before decryption
+            const verify = this.getVerifyMode(options);
+            if (verify !== "off") {
+                const verifier = new CidVerifier(cid, this.getDagLayout());
+                verifier.update(buffer);
+                this.checkIntegrity(cid, verifier.result(), verify);
             }
 
-            const arrayBuffer = await response.arrayBuffer();
-            const buffer = Buffer.from(arrayBuffer);
+            // Content encrypted on the agent is decrypted transparently
+            const header = parseEncryptionHeader(buffer);
+            if (header) {
+                const contentKey = await this.getKeyForHeader(header, endpoint);
+                try {
+                    buffer = decryptContent(contentKey, buffer);
+                } catch (error: any) {
+                    throw new MefsDecryptionError(
+                        `Failed to decrypt file: ${error instanceof Error ? error.message : String(error)}`,
+                        { endpoint, cause: error }
+                    );
+                }
+                // The type MEFS has is the one of the ciphertext
+                declaredType = undefined;
+            }
             logger.info(`File retrieved successfully. CID: ${cid}, Size: ${buffer.length} bytes`);
-            return buffer;
+            return {
+                content: buffer,
+                contentType: detectMimeType(buffer.subarray(0, MIME_SNIFF_LENGTH), filename, declaredType),
+                filename,
+                size: buffer.length,
+            };
         } catch (error: any) {
             logger.error(error, "Failed to retrieve file from MEFS");
             throw error;
+        } finally {
+            scope.dispose();
+        }
+    }
+
+    /**
+     * Retrieve file from MEFS as a stream, without buffering it in memory.
+     * The timeout covers the whole download, until the stream is consumed.
+     * The content is checked against the CID as it is read, and the stream
+     * fails at its end if the check fails.
+     * @param cid - content identifier
+     * @param options - decryption key, cancellation signal, timeout and verification mode
+     * @returns readable stream of the file content
+     */
+    async retrieveStream(cid: string, options: RetrieveOptions = {}): Promise<Readable> {
+        return (await this.openFileStream(cid, options)).stream;
+    }
+
+    /**
+     * Open the stream `retrieveStream` returns, keeping the Content-Type and
+     * Content-Disposition file name of the response
+     */
+    private async openFileStream(cid: string, options: RetrieveOptions): Promise<FileStream> {
+        const scope = this.createRequestScope(options);
+        const endpoint = `/mefs/${cid}`;
+        let response: Response;
+        let contentKey: Buffer;
+        try {
+            contentKey = await this.getContentKey();
+            response = await this.requestFile(cid, options.key, scope.signal);
+        } catch (error: any) {
+            scope.dispose();
+            logger.error(error, "Failed to retrieve file from MEFS");
+            throw error;
+        }
+
+        const file: Omit<FileStream, "stream"> = {
+            declaredType: response.headers.get("content-type") || undefined,
+            filename: getFilenameFromContentDisposition(response.headers.get("content-disposition")),
+        };
+        const body = response.body;
+        const signal = scope.signal;
+        async function* chunks() {
+            try {
+                if (!body) {
+                    return;
+                }
+                for await (const chunk of body as unknown as NodeReadableStream<Uint8Array>) {
+                    yield chunk;
+                }
+            } catch (error: any) {
+                if (signal.aborted) {
+                    throw abortReason(signal, endpoint);
+                }
+                throw new MefsNetworkError(
+                    `Failed to read MEFS response (${endpoint}): ${error instanceof Error ? error.message : String(error)}`,
+                    { endpoint, cause: error }
+                );
+            } finally {
+                scope.dispose();
+            }
+        }
+
+        // Content encrypted on the agent is decrypted transparently
+        const decrypt = createDecryptStream((header) => {
+            checkContentKey(header, contentKey, endpoint);
+            // The type MEFS has is the one of the ciphertext
+            file.declaredType = undefined;
+            return contentKey;
+        }, (error) => error instanceof MefsError
+            ? error
+            : new MefsDecryptionError(
+                `Failed to decrypt file: ${error instanceof Error ? error.message : String(error)}`,
+                { endpoint, cause: error }
+            ));
+        const verify = this.getVerifyMode(options);
+        if (verify === "off") {
+            return Object.assign(file, {
+                stream: pipeStreams(Readable.from(chunks(), { objectMode: false }), decrypt, () => undefined),
+            });
+        }
+
+        const verifier = new CidVerifier(cid, this.getDagLayout());
+        const checkIntegrity = (result: VerifyResult) => this.checkIntegrity(cid, result, verify);
+        const check = new Transform({
+            transform(chunk: Buffer, _encoding, done) {
+                verifier.update(chunk);
+                done(null, chunk);
+            },
+            flush(done) {
+                try {
+                    checkIntegrity(verifier.result());
+                    done();
+                } catch (error: any) {
+                    done(error);
+                }
+            },
+        });
+        return Object.assign(file, {
+            stream: pipeStreams(Readable.from(chunks(), { objectMode: false }), check, decrypt, () => undefined),
+        });
+    }
+
+    /**
+     * Retrieve part of a file from MEFS with an HTTP Range request. If the
+     * gateway ignores the range, the requested bytes are cut from the full
+     * stream and the download is stopped as soon as they have been read.
+     * Ranges are not checked against the CID, which covers the whole file.
+     * @param cid - content identifier
+     * @param start - offset of the first byte
+     * @param end - offset after the last byte (exclusive); to the end of the file if omitted
+     * @param key - decryption key (optional, required for encrypted files)
+     * @param options - cancellation signal and timeout
+     * @returns the requested bytes; fewer if the file is shorter
+     */
+    async retrieveRange(
+        cid: string,
+        start: number,
+        end?: number,
+        key?: string,
+        options: RequestOptions = {}
+    ): Promise<Buffer> {
+        if (!Number.isInteger(start) || start < 0 || (end !== undefined && (!Number.isInteger(end) || end < start))) {
+            throw new RangeError(`Invalid byte range: ${start}-${end ?? ""}`);
+        }
+        if (end === start) {
+            return Buffer.alloc(0);
+        }
+
+        const scope = this.createRequestScope(options);
+        const endpoint = `/mefs/${cid}`;
+        try {
+            let buffer: Buffer;
+            // Files encrypted on the agent stay encrypted after
+            // MEFS_CLIENT_ENCRYPTION is turned off, so the header is always
+            // looked for
+            const header = parseEncryptionHeader(
+                await this.fetchRange(cid, 0, ENCRYPTION_HEADER_LENGTH, key, scope.signal)
+            );
+
+            if (header) {
+                buffer = await this.fetchEncryptedRange(cid, header, start, end, key, scope.signal);
+            } else {
+                buffer = await this.fetchRange(cid, start, end, key, scope.signal);
+            }
+            logger.info(`File range retrieved successfully. CID: ${cid}, Range: ${start}-${end ?? ""}`);
+            return buffer;
+        } catch (error: any) {
+            logger.error(error, "Failed to retrieve file range from MEFS");
+            throw error;
+        } finally {
+            scope.dispose();
+        }
+    }
+
+    /**
+     * Fetch a range of the stored bytes of a file
+     * @param end - exclusive end offset; to the end of the file if omitted
+     */
+    private async fetchRange(
+        cid: string,
+        start: number,
+        end: number | undefined,
+        key: string | undefined,
+        signal: AbortSignal
+    ): Promise<Buffer> {
+        const endpoint = `/mefs/${cid}`;
+        let response: Response;
+        try {
+            response = await this.requestFile(cid, key, signal, {
+                "Range": `bytes=${start}-${end !== undefined ? end - 1 : ""}`,
+            });
+        } catch (error: any) {
+            if (error instanceof MefsError && error.status === 416) {
+                // The range starts beyond the end of the file
+                return Buffer.alloc(0);
+            }
+            throw error;
+        }
+
+        if (response.status === 206) {
+            const arrayBuffer = await this.readBody(() => response.arrayBuffer(), signal, endpoint);
+            return Buffer.from(arrayBuffer);
+        }
+
+        // The gateway ignored the range, so cut it from the full content
+        logger.debug(`MEFS ignored the range request for ${cid}, slicing the response`);
+        const parts: Buffer[] = [];
+        let offset = 0;
+        const reader = response.body?.getReader();
+        try {
+            while (reader && (end === undefined || offset < end)) {
+                const { done, value } = await this.readBody(() => reader.read(), signal, endpoint);
+                if (done) {
+                    break;
+                }
+                const chunk = Buffer.from(value);
+                const from = Math.max(0, start - offset);
+                const to = end === undefined ? chunk.length : Math.min(chunk.length, end - offset);
+                if (from < to) {
+                    parts.push(chunk.subarray(from, to));
+                }
+                offset += chunk.length;
+            }
+        } finally {
+            await reader?.cancel().catch(() => undefined);
+        }
+        return Buffer.concat(parts);
+    }
+
+    /**
+     * Fetch a plaintext range of a file encrypted on the agent, by fetching
+     * and decrypting only the segments that overlap it
+     */
+    private async fetchEncryptedRange(
+        cid: string,
+        header: EncryptionHeader,
+        start: number,
+        end: number | undefined,
+        key: string | undefined,
+        signal: AbortSignal
+    ): Promise<Buffer> {
+        const endpoint = `/mefs/${cid}`;
+        const contentKey = await this.getKeyForHeader(header, endpoint);
+        const segmentSize = header.segmentSize;
+        const stride = segmentSize + 16;
+        const first = Math.floor(start / segmentSize);
+        const last = end !== undefined ? Math.floor((end - 1) / segmentSize) : undefined;
+
+        const data = await this.fetchRange(
+            cid,
+            ENCRYPTION_HEADER_LENGTH + first * stride,
+            last !== undefined ? ENCRYPTION_HEADER_LENGTH + (last + 1) * stride : undefined,
+            key,
+            signal
+        );
+
+        const parts: Buffer[] = [];
+        try {
+            for (let offset = 0; offset < data.length; offset += stride) {
+                const segment = data.subarray(offset, offset + stride);
+                const index = first + offset / stride;
+                if (offset + stride < data.length) {
+                    parts.push(decryptSegment(contentKey, header, index, false, segment));
+                    continue;
+                }
+                // Whether the final segment fetched is also the last one of
+                // the file is only known by trying
+                try {
+                    parts.push(decryptSegment(contentKey, header, index, false, segment));
+                } catch {
+                    parts.push(decryptSegment(contentKey, header, index, true, segment));
+                }
+            }
+        } catch (error: any) {
+            throw new MefsDecryptionError(
+                `Failed to decrypt file range: ${error instanceof Error ? error.message : String(error)}`,
+                { endpoint, cause: error }
+            );
+        }
+
+        const plaintext = Buffer.concat(parts);
+        const offset = start - first * segmentSize;
+        return plaintext.subarray(offset, end !== undefined ? end - first * segmentSize : undefined);
+    }
+
+    /**
+     * Retrieve file from MEFS and write it to disk. The content is written to
+     * a temporary file next to the destination, which is renamed into place
+     * once the download is complete. Its type is the one MEFS reports, unless
+     * the first bytes tell otherwise, like `retrieveFileWithMetadata` does.
+     * @param cid - content identifier
+     * @param destPath - destination file path
+     * @param options - decryption key, cancellation signal, timeout, and the
+     * file name to detect the type from if MEFS reports none
+     * @returns number of bytes written, MIME type and the file name MEFS reported
+     */
+    async retrieveToPath(
+        cid: string,
+        destPath: string,
+        options: RetrieveOptions & { filename?: string } = {}
+    ): Promise<RetrievedFileInfo> {
+        const tempPath = path.join(
+            path.dirname(destPath),
+            `.${path.basename(destPath)}.${randomBytes(6).toString("hex")}.tmp`
+        );
+        const file = await this.openFileStream(cid, options);
+        const stream = file.stream;
+        let size = 0;
+        let head = Buffer.alloc(0);
+        stream.on("data", (chunk: Buffer) => {
+            size += chunk.length;
+            if (head.length < MIME_SNIFF_LENGTH) {
+                head = Buffer.concat([head, chunk.subarray(0, MIME_SNIFF_LENGTH - head.length)]);
+            }
+        });
+
+        try {
+            await pipeline(stream, fs.createWriteStream(tempPath, { flags: "wx" }));
+            await fs.promises.rename(tempPath, destPath);
+        } catch (error: any) {
+            await fs.promises.rm(tempPath, { force: true });
+            logger.error(error, `Failed to write file from MEFS to ${destPath}`);
+            throw error;
+        }
+        logger.info(`File retrieved successfully. CID: ${cid}, Path: ${destPath}, Size: ${size} bytes`);
+        return {
+            contentType: detectMimeType(head, file.filename ?? options.filename, file.declaredType),
+            filename: file.filename,
+            size,
+        };
+    }
+
+    /**
+     * Delete a file from MEFS, so that it can no longer be retrieved. Its key
+     * is removed from the key store and the deletion is recorded in the
+     * upload registry. A file MEFS does not have counts as deleted, since a
+     * retried request gets a 404 once the first attempt deleted it.
+     *
+     * Uses the MEFS delete endpoint: DELETE /mefs/{cid}.
+     * @param cid - content identifier
+     * @param options - entity deleting the file, cancellation signal and timeout
+     */
+    async deleteFile(cid: string, options: RequestOptions & { deletedBy?: UUID } = {}): Promise<void> {
+        const scope = this.createRequestScope(options);
+        const endpoint = `/mefs/${cid}`;
+        try {
+            const response = await this.authorizedFetch(this.getConfig().MEFS_API_URL + endpoint, endpoint, () => ({
+                method: "DELETE",
+            }), { signal: scope.signal, idempotent: true });
+            if (!response.ok && response.status !== 404) {
+                throw await errorFromResponse(response, endpoint, "Failed to delete file");
+            }
+            await response.body?.cancel().catch(() => undefined);
+            logger.info(response.ok
+                ? `File deleted successfully. CID: ${cid}`
+                : `File already deleted from MEFS. CID: ${cid}`);
+        } catch (error: any) {
+            logger.error(error, "Failed to delete file from MEFS");
+            throw error;
+        } finally {
+            scope.dispose();
+        }
+
+        // The file is gone whether or not the bookkeeping succeeds
+        try {
+            await this.keys.removeKey(cid);
+            await this.uploads.recordDeletion(cid, options.deletedBy);
+        } catch (error: any) {
+            logger.warn(`Failed to record deletion of ${cid}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Get the size, type, visibility, owner, creation time and replication
+     * status of a file without downloading it. MEFS is asked with a HEAD
+     * request, and what it does not report is taken from the upload
+     * registry.
+     *
+     * Besides the standard Content-Length, Content-Type, Content-Disposition
+     * and Last-Modified headers, MEFS reports X-Mefs-Public, X-Mefs-Owner,
+     * X-Mefs-Created-At, X-Mefs-Replication and X-Mefs-Replicas.
+     * @param cid - content identifier
+     * @param options - cancellation signal and timeout
+     * @returns file metadata
+     * @throws MefsNotFoundError if MEFS does not have the file
+     */
+    async stat(cid: string, options: RequestOptions = {}): Promise<FileStat> {
+        const scope = this.createRequestScope(options);
+        const endpoint = `/mefs/${cid}`;
+        let headers: Headers;
+        try {
+            const response = await this.requestHead(cid, scope.signal);
+            if (!response.ok) {
+                throw await errorFromResponse(response, endpoint, "Failed to get file metadata");
+            }
+            headers = response.headers;
+        } catch (error: any) {
+            logger.error(error, "Failed to get file metadata from MEFS");
+            throw error;
+        } finally {
+            scope.dispose();
+        }
+
+        let record: UploadRecord | undefined;
+        try {
+            [record] = await this.uploads.query({ cid, limit: 1 });
+        } catch (error: any) {
+            logger.warn(`Failed to look up upload of ${cid}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        const storedSize = parseHeaderNumber(headers.get("content-length"));
+        const declaredType = headers.get("content-type") || undefined;
+        const publicHeader = headers.get("x-mefs-public")?.trim().toLowerCase();
+        const isPublic = publicHeader === "true" || publicHeader === "1"
+            ? true
+            : publicHeader === "false" || publicHeader === "0" ? false : record?.public;
+        const createdAt = parseHeaderDate(headers.get("x-mefs-created-at")) ?? parseHeaderDate(headers.get("last-modified"));
+        const replicationStatus = headers.get("x-mefs-replication")?.trim();
+        const replicas = parseHeaderNumber(headers.get("x-mefs-replicas"));
+
+        // The registry has the size and type of the content before it was
+        // encrypted on the agent, which MEFS does not know. Without a record,
+        // the stored size is the content size unless the file may be
+        // encrypted.
+        const mayBeEncrypted = isPublic !== true && !!this.mefsConfig?.MEFS_CLIENT_ENCRYPTION;
+        const stat: FileStat = {
+            cid,
+            size: record?.size ?? (mayBeEncrypted ? undefined : storedSize),
+            storedSize,
+            contentType: record?.contentType ?? (mayBeEncrypted && declaredType === DEFAULT_MIME_TYPE ? undefined : declaredType),
+            filename: getFilenameFromContentDisposition(headers.get("content-disposition")) ?? record?.filename,
+            public: isPublic,
+            owner: headers.get("x-mefs-owner")?.trim() || record?.wallet,
+            createdAt: createdAt ?? record?.uploadedAt,
+            replication: replicationStatus || replicas !== undefined
+                ? { status: replicationStatus || "unknown", replicas }
+                : undefined,
+            recorded: !!record,
+        };
+        logger.info(`File metadata retrieved successfully. CID: ${cid}`);
+        return stat;
+    }
+
+    /**
+     * Get the storage usage, quota and balance of the MEFS account of the
+     * configured wallet.
+     *
+     * Uses the MEFS account endpoint: GET /account, which answers with
+     * `usedBytes`, `objectCount`, `quotaBytes` and `balance`.
+     * @param options - cancellation signal and timeout
+     * @returns account usage and balance
+     */
+    async getAccountInfo(options: RequestOptions = {}): Promise<AccountInfo> {
+        let info: AccountInfo;
+        try {
+            info = await this.fetchAccountInfo(options);
+        } catch (error: any) {
+            logger.error(error, "Failed to get account info from MEFS");
+            throw error;
+        }
+        logger.info(`Account info retrieved successfully. Address: ${info.address}`);
+        return info;
+    }
+
+    /**
+     * Ask MEFS for the account info, without logging failures
+     */
+    private async fetchAccountInfo(options: RequestOptions): Promise<AccountInfo> {
+        const scope = this.createRequestScope(options);
+        const endpoint = "/account";
+        try {
+            const response = await this.authorizedFetch(this.getConfig().MEFS_API_URL + endpoint, endpoint, () => ({
+                method: "GET",
+            }), { signal: scope.signal });
+            if (!response.ok) {
+                throw await errorFromResponse(response, endpoint, "Failed to get account info");
+            }
+            const result = await this.readBody(() => response.json(), scope.signal, endpoint);
+
+            const usedBytes = parseAccountNumber(result.usedBytes);
+            const quotaBytes = parseAccountNumber(result.quotaBytes);
+            const info: AccountInfo = {
+                address: typeof result.address === "string" && result.address
+                    ? result.address
+                    : this.getConfig().MEFS_WALLET_ADDRESS,
+                usedBytes,
+                objectCount: parseAccountNumber(result.objectCount),
+                quotaBytes,
+                availableBytes: usedBytes !== undefined && quotaBytes !== undefined
+                    ? Math.max(0, quotaBytes - usedBytes)
+                    : undefined,
+                balance: result.balance !== undefined && result.balance !== null ? String(result.balance) : undefined,
+            };
+            return info;
+        } finally {
+            scope.dispose();
+        }
+    }
+
+    /**
+     * Make sure an upload fits in the storage left on the account, before
+     * any content is sent. The account info is reused for
+     * QUOTA_CHECK_TTL_MS, so a batch of uploads asks MEFS once. If the
+     * account info cannot be had, the upload goes ahead and MEFS has the
+     * last word.
+     * @param size - byte length of the content, before any encryption
+     * @throws MefsQuotaError if the upload does not fit
+     */
+    private async checkQuota(size: number, options: UploadOptions): Promise<void> {
+        const storedSize = this.shouldEncrypt(options) ? getEncryptedSize(size) : size;
+        if (!this.quotaCheck || this.quotaCheck.expiresAt <= Date.now()) {
+            let info: AccountInfo | null = null;
+            try {
+                info = await this.fetchAccountInfo(options);
+                this.quotaCheckFailureLogged = false;
+            } catch (error: any) {
+                if (error instanceof MefsAbortError || error instanceof MefsTimeoutError) {
+                    throw error;
+                }
+                // MEFS may not have the account endpoint at all
+                if (!this.quotaCheckFailureLogged) {
+                    logger.debug(`Could not check the storage quota: ${error instanceof Error ? error.message : String(error)}`);
+                    this.quotaCheckFailureLogged = true;
+                }
+            }
+            this.quotaCheck = { info, expiresAt: Date.now() + QUOTA_CHECK_TTL_MS };
+        }
+        const info = this.quotaCheck.info;
+        if (info?.availableBytes !== undefined && storedSize > info.availableBytes) {
+            throw new MefsQuotaError(
+                `Not enough storage left: the upload needs ${storedSize} bytes, ${info.availableBytes} bytes are available`,
+                { endpoint: "/account" }
+            );
+        }
+    }
+
+    /**
+     * Take a finished upload off the storage left in the account info of the
+     * last quota check, so that the next uploads within QUOTA_CHECK_TTL_MS
+     * are checked against what is really left
+     * @param size - byte length of the content, before any encryption
+     */
+    private takeFromQuota(size: number, options: UploadOptions): void {
+        const info = this.quotaCheck?.info;
+        if (!this.quotaCheck || info?.availableBytes === undefined) {
+            return;
+        }
+        const storedSize = this.shouldEncrypt(options) ? getEncryptedSize(size) : size;
+        this.quotaCheck = {
+            ...this.quotaCheck,
+            info: {
+                ...info,
+                availableBytes: Math.max(0, info.availableBytes - storedSize),
+            },
+        };
+    }
+
+    /**
+     * Send a HEAD request for a file. The response is returned whatever its
+     * status, without a body.
+     */
+    private async requestHead(cid: string, signal: AbortSignal): Promise<Response> {
+        const endpoint = `/mefs/${cid}`;
+        const response = await this.authorizedFetch(this.getConfig().MEFS_API_URL + endpoint, endpoint, () => ({
+            method: "HEAD",
+        }), { signal });
+        await response.body?.cancel().catch(() => undefined);
+        return response;
+    }
+
+    private getVerifyMode(options: VerifyOptions): VerifyMode {
+        return options.verify ?? this.mefsConfig?.MEFS_VERIFY_CONTENT ?? "warn";
+    }
+
+    /**
+     * Act on the result of checking retrieved content against its CID
+     * @throws MefsIntegrityError in strict mode, unless the content matches
+     */
+    private checkIntegrity(cid: string, result: VerifyResult, verify: VerifyMode): void {
+        if (result === "verified") {
+            logger.debug(`Content returned for ${cid} matches the CID`);
+            return;
+        }
+        const message = result === "mismatch"
+            ? `Content returned for ${cid} does not match the CID`
+            : `Content returned for ${cid} could not be verified against the CID`;
+        if (verify === "strict") {
+            throw new MefsIntegrityError(message, { endpoint: `/mefs/${cid}` });
+        }
+        logger.warn(message);
+    }
+
+    /**
+     * Send the download request for a file
+     * @throws a typed MefsError if MEFS does not return the file
+     */
+    private async requestFile(
+        cid: string,
+        key: string | undefined,
+        signal: AbortSignal,
+        headers: Record<string, string> = {}
+    ): Promise<Response> {
+        if (!this.mefsConfig) {
+            throw new Error("Storage config not initialized");
+        }
+
+        const retrieveUrl = new URL(this.mefsConfig.MEFS_API_URL + "/mefs/" + cid);
+
+        // According to the documentation, the key can be passed via query string or POST body
+        // Here we use the query string method
+        if (key) {
+            retrieveUrl.searchParams.set("key", key);
+        }
+
+        const endpoint = `/mefs/${cid}`;
+        const response = await this.authorizedFetch(retrieveUrl.toString(), endpoint, () => ({
+            method: "GET",
+            headers,
+        }), { signal });
+
+        if (!response.ok) {
+            throw await errorFromResponse(response, endpoint, "Failed to retrieve file");
         }
+        return response;
     }
 
     static async start(runtime: IAgentRuntime): Promise<StorageService> {
@@ -0,0 +1,346 @@
+import { createCipheriv, createDecipheriv, createHash, hkdfSync, randomBytes, scrypt } from "crypto";
+import { Transform } from "stream";
+
+const CIPHER = "aes-256-gcm";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Derive a 256-bit key from a secret with HKDF-SHA256
+ * @param secret - input key material
+ * @param info - context string, so that one secret can yield independent keys
+ * @param salt - optional salt
+ * @returns 32-byte key
+ */
+export function deriveKey(secret: string | Buffer, info: string, salt: string | Buffer = ""): Buffer {
+    return Buffer.from(hkdfSync("sha256", secret, salt, info, 32));
+}
+
+/**
+ * Derive a 256-bit key from a user passphrase with scrypt, which unlike HKDF
+ * is slow enough to resist guessing
+ * @param passphrase - user passphrase
+ * @param salt - random salt, stored next to the data it protects
+ * @returns 32-byte key
+ */
+export function deriveKeyFromPassphrase(passphrase: string, salt: Buffer): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        scrypt(passphrase.normalize("NFKC"), salt, 32, { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 }, (error, key) => {
+            if (error) {
+                reject(error);
+            } else {
+                resolve(key);
+            }
+        });
+    });
+}
+
+/**
+ * Encrypt a string with AES-256-GCM
+ * @returns base64 of iv + auth tag + ciphertext
+ */
+export function encryptString(plaintext: string, key: Buffer): string {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(CIPHER, key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+/**
+ * Decrypt a string produced by `encryptString`
+ * @throws if the key is wrong or the payload was tampered with
+ */
+export function decryptString(payload: string, key: Buffer): string {
+    const data = Buffer.from(payload, "base64");
+    if (data.length < IV_LENGTH + TAG_LENGTH) {
+        throw new Error("Encrypted payload is too short");
+    }
+    const iv = data.subarray(0, IV_LENGTH);
+    const tag = data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+    const decipher = createDecipheriv(CIPHER, key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([
+        decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)),
+        decipher.final(),
+    ]).toString("utf-8");
+}
+
+/*
+ * Client-side encryption format. The content is split into segments that are
+ * encrypted one by one with AES-256-GCM, so that it can be encrypted and
+ * decrypted as a stream, in chunks or by range:
+ *
+ *   header:  magic "MEFSENC" (7) | version (1) | key id (8) | segment size (4, uint32 BE) | nonce prefix (7)
+ *   segment: ciphertext | auth tag (16)
+ *
+ * Segment i uses the nonce: nonce prefix | i (4, uint32 BE) | 1 if last segment else 0 (1),
+ * and authenticates the header as additional data. The last-segment flag
+ * makes truncated content fail to decrypt.
+ */
+
+const MAGIC = Buffer.from("MEFSENC", "ascii");
+export const ENCRYPTION_VERSION = 1;
+export const ENCRYPTION_HEADER_LENGTH = 27;
+export const DEFAULT_SEGMENT_SIZE = 64 * 1024;
+const KEY_ID_LENGTH = 8;
+export const NONCE_PREFIX_LENGTH = 7;
+
+/**
+ * Parsed header of encrypted content
+ */
+export type EncryptionHeader = {
+    version: number;
+    keyId: Buffer;
+    segmentSize: number;
+    noncePrefix: Buffer;
+    /** Raw header bytes, authenticated with every segment */
+    raw: Buffer;
+};
+
+/**
+ * Identifier of a content key, stored in the header to detect a wrong key
+ */
+export function getKeyId(key: Buffer): Buffer {
+    return createHash("sha256").update(key).digest().subarray(0, KEY_ID_LENGTH);
+}
+
+/**
+ * Build the header of new encrypted content
+ * @param noncePrefix - random if omitted; only pass one to reproduce the
+ *                      exact ciphertext of the same content, e.g. to resume an upload
+ */
+export function createEncryptionHeader(
+    key: Buffer,
+    noncePrefix: Buffer = randomBytes(NONCE_PREFIX_LENGTH),
+    segmentSize: number = DEFAULT_SEGMENT_SIZE
+): EncryptionHeader {
+    const raw = Buffer.alloc(ENCRYPTION_HEADER_LENGTH);
+    MAGIC.copy(raw, 0);
+    raw.writeUInt8(ENCRYPTION_VERSION, 7);
+    const keyId = getKeyId(key);
+    keyId.copy(raw, 8);
+    raw.writeUInt32BE(segmentSize, 16);
+    noncePrefix.subarray(0, NONCE_PREFIX_LENGTH).copy(raw, 20);
+    return {
+        version: ENCRYPTION_VERSION,
+        keyId,
+        segmentSize,
+        noncePrefix: raw.subarray(20),
+        raw,
+    };
+}
+
+/**
+ * Parse the header at the start of the content
+ * @returns the header, or null if the content is not in the encryption format
+ */
+export function parseEncryptionHeader(data: Buffer): EncryptionHeader | null {
+    if (data.length < ENCRYPTION_HEADER_LENGTH || !data.subarray(0, MAGIC.length).equals(MAGIC)) {
+        return null;
+    }
+    const raw = Buffer.from(data.subarray(0, ENCRYPTION_HEADER_LENGTH));
+    const segmentSize = raw.readUInt32BE(16);
+    if (segmentSize === 0) {
+        return null;
+    }
+    return {
+        version: raw.readUInt8(7),
+        keyId: raw.subarray(8, 16),
+        segmentSize,
+        noncePrefix: raw.subarray(20),
+        raw,
+    };
+}
+
+/**
+ * Byte length of the encrypted form of content of the given length
+ */
+export function getEncryptedSize(plainSize: number, segmentSize: number = DEFAULT_SEGMENT_SIZE): number {
+    const segments = Math.max(1, Math.ceil(plainSize / segmentSize));
+    return ENCRYPTION_HEADER_LENGTH + plainSize + segments * TAG_LENGTH;
+}
+
+function segmentNonce(header: EncryptionHeader, index: number, last: boolean): Buffer {
+    const nonce = Buffer.alloc(IV_LENGTH);
+    header.noncePrefix.copy(nonce, 0);
+    nonce.writeUInt32BE(index, NONCE_PREFIX_LENGTH);
+    nonce.writeUInt8(last ? 1 : 0, IV_LENGTH - 1);
+    return nonce;
+}
+
+/**
+ * Encrypt one segment
+ * @returns ciphertext followed by the auth tag
+ */
+export function encryptSegment(
+    key: Buffer,
+    header: EncryptionHeader,
+    index: number,
+    last: boolean,
+    plaintext: Buffer
+): Buffer {
+    const cipher = createCipheriv(CIPHER, key, segmentNonce(header, index, last));
+    cipher.setAAD(header.raw);
+    return Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+}
+
+/**
+ * Decrypt one segment
+ * @throws if the key, the position or the last-segment flag is wrong
+ */
+export function decryptSegment(
+    key: Buffer,
+    header: EncryptionHeader,
+    index: number,
+    last: boolean,
+    segment: Buffer
+): Buffer {
+    if (segment.length < TAG_LENGTH) {
+        throw new Error("Encrypted segment is too short");
+    }
+    const decipher = createDecipheriv(CIPHER, key, segmentNonce(header, index, last));
+    decipher.setAAD(header.raw);
+    decipher.setAuthTag(segment.subarray(segment.length - TAG_LENGTH));
+    return Buffer.concat([
+        decipher.update(segment.subarray(0, segment.length - TAG_LENGTH)),
+        decipher.final(),
+    ]);
+}
+
+/**
+ * Encrypt content held in memory
+ */
+export function encryptContent(key: Buffer, plaintext: Buffer, header: EncryptionHeader = createEncryptionHeader(key)): Buffer {
+    const parts: Buffer[] = [header.raw];
+    const segments = Math.max(1, Math.ceil(plaintext.length / header.segmentSize));
+    for (let i = 0; i < segments; i++) {
+        const chunk = plaintext.subarray(i * header.segmentSize, (i + 1) * header.segmentSize);
+        parts.push(encryptSegment(key, header, i, i === segments - 1, chunk));
+    }
+    return Buffer.concat(parts);
+}
+
+/**
+ * Decrypt content held in memory
+ * @throws if the content is not encrypted with the given key or was tampered with
+ */
+export function decryptContent(key: Buffer, data: Buffer): Buffer {
+    const header = parseEncryptionHeader(data);
+    if (!header) {
+        throw new Error("Content is not encrypted");
+    }
+    const stride = header.segmentSize + TAG_LENGTH;
+    const body = data.subarray(ENCRYPTION_HEADER_LENGTH);
+    const segments = Math.max(1, Math.ceil(body.length / stride));
+    const parts: Buffer[] = [];
+    for (let i = 0; i < segments; i++) {
+        parts.push(decryptSegment(key, header, i, i === segments - 1, body.subarray(i * stride, (i + 1) * stride)));
+    }
+    return Buffer.concat(parts);
+}
+
+/**
+ * Transform stream that encrypts its input
+ */
+export function createEncryptStream(key: Buffer, header: EncryptionHeader = createEncryptionHeader(key)): Transform {
+    let pending = Buffer.alloc(0);
+    let index = 0;
+    let headerSent = false;
+    const sendHeader = (stream: Transform) => {
+        if (!headerSent) {
+            stream.push(header.raw);
+            headerSent = true;
+        }
+    };
+
+    return new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            try {
+                sendHeader(this);
+                pending = Buffer.concat([pending, chunk]);
+                // Hold back the last full segment until we know whether more follows
+                while (pending.length > header.segmentSize) {
+                    this.push(encryptSegment(key, header, index++, false, pending.subarray(0, header.segmentSize)));
+                    pending = pending.subarray(header.segmentSize);
+                }
+                callback();
+            } catch (error: any) {
+                callback(error);
+            }
+        },
+        flush(callback) {
+            try {
+                sendHeader(this);
+                this.push(encryptSegment(key, header, index, true, pending));
+                callback();
+            } catch (error: any) {
+                callback(error);
+            }
+        },
+    });
+}
+
+/**
+ * Transform stream that decrypts content in the encryption format, and
+ * passes any other content through unchanged
+ * @param getKey - returns the key for the content's header; may throw to reject it
+ * @param mapError - turns a failure into the error the stream emits
+ */
+export function createDecryptStream(
+    getKey: (header: EncryptionHeader) => Buffer,
+    mapError: (error: unknown) => Error = (error) => error as Error
+): Transform {
+    let pending = Buffer.alloc(0);
+    let header: EncryptionHeader | null = null;
+    let key: Buffer | null = null;
+    let passthrough = false;
+    let index = 0;
+
+    return new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            try {
+                if (passthrough) {
+                    callback(null, chunk);
+                    return;
+                }
+                pending = Buffer.concat([pending, chunk]);
+                if (!header) {
+                    if (pending.length < ENCRYPTION_HEADER_LENGTH) {
+                        callback();
+                        return;
+                    }
+                    header = parseEncryptionHeader(pending);
+                    if (!header) {
+                        passthrough = true;
+                        const head = pending;
+                        pending = Buffer.alloc(0);
+                        callback(null, head);
+                        return;
+                    }
+                    key = getKey(header);
+                    pending = pending.subarray(ENCRYPTION_HEADER_LENGTH);
+                }
+                const stride = header.segmentSize + TAG_LENGTH;
+                while (pending.length > stride) {
+                    this.push(decryptSegment(key!, header, index++, false, pending.subarray(0, stride)));
+                    pending = pending.subarray(stride);
+                }
+                callback();
+            } catch (error: any) {
+                callback(mapError(error));
+            }
+        },
+        flush(callback) {
+            try {
+                if (passthrough || !header) {
+                    // Shorter than a header, so it cannot be encrypted
+                    callback(null, pending.length > 0 ? pending : undefined);
+                    return;
+                }
+                callback(null, decryptSegment(key!, header, index, true, pending));
+            } catch (error: any) {
+                callback(mapError(error));
+            }
+        },
+    });
+}
@@ -0,0 +1,103 @@
+/**
+ * Context attached to every MEFS error
+ */
+export type MefsErrorDetails = {
+    /** HTTP status code, if the server answered */
+    status?: number;
+    /** MEFS endpoint the request was sent to, e.g. "/mefs/" */
+    endpoint?: string;
+    /** Request id reported by the server, if any */
+    requestId?: string;
+    cause?: unknown;
+};
+
+/**
+ * Base class of all errors raised by StorageService
+ */
+export class MefsError extends Error {
+    readonly status?: number;
+    readonly endpoint?: string;
+    readonly requestId?: string;
+
+    constructor(message: string, details: MefsErrorDetails = {}) {
+        super(message, details.cause !== undefined ? { cause: details.cause } : undefined);
+        this.name = new.target.name;
+        this.status = details.status;
+        this.endpoint = details.endpoint;
+        this.requestId = details.requestId;
+    }
+}
+
+/** Login failed or the session was rejected */
+export class MefsAuthError extends MefsError { }
+
+/** The requested CID does not exist */
+export class MefsNotFoundError extends MefsError { }
+
+/** The account has no storage quota or balance left */
+export class MefsQuotaError extends MefsError { }
+
+/** The MEFS node could not be reached or the gateway failed */
+export class MefsNetworkError extends MefsError { }
+
+/** MEFS did not answer in time */
+export class MefsTimeoutError extends MefsNetworkError { }
+
+/** The request was cancelled by the caller or because the service stopped */
+export class MefsAbortError extends MefsError { }
+
+/** The content could not be decrypted, usually because of a wrong key */
+export class MefsDecryptionError extends MefsError { }
+
+/** Retrieved content does not match the CID it was requested by */
+export class MefsIntegrityError extends MefsError { }
+
+/** An attachment could not be loaded: unsupported URL, download failure or too large */
+export class MefsAttachmentError extends MefsError { }
+
+const QUOTA_PATTERN = /quota|insufficient|balance|no (enough )?space|storage (is )?full/i;
+const DECRYPTION_PATTERN = /decrypt|wrong key|invalid key|cipher/i;
+
+/**
+ * Build the matching typed error for a failed MEFS response
+ * @param response - non-ok response; its body is consumed
+ * @param endpoint - MEFS endpoint that was called
+ * @param message - what failed, e.g. "Failed to upload file"
+ */
+export async function errorFromResponse(
+    response: Response,
+    endpoint: string,
+    message: string
+): Promise<MefsError> {
+    let errorText = "";
+    try {
+        errorText = await response.text();
+    } catch {
+        // The body is only used for the message
+    }
+
+    const status = response.status;
+    const details: MefsErrorDetails = {
+        status,
+        endpoint,
+        requestId: response.headers.get("x-request-id") ?? undefined,
+    };
+    const fullMessage = `${message}: ${status} ${errorText}`.trim();
+
+    if (status === 402 || status === 413 || status === 507 || QUOTA_PATTERN.test(errorText)) {
+        return new MefsQuotaError(fullMessage, details);
+    }
+    if (DECRYPTION_PATTERN.test(errorText)) {
+        return new MefsDecryptionError(fullMessage, details);
+    }
+    if (status === 401 || status === 403) {
+        return new MefsAuthError(fullMessage, details);
+    }
+    if (status === 404) {
+        return new MefsNotFoundError(fullMessage, details);
+    }
+    if (status === 502 || status === 503 || status === 504) {
+        return new MefsNetworkError(fullMessage, details);
+    }
+    return new MefsError(fullMessage, details);
+}
@@ -1,4 +1,28 @@
 import { storagePlugin } from './plugin.ts';
 
 export { storagePlugin, StorageService } from './plugin.ts';
+export type {
+    AccountInfo,
+    FileStat,
+    ReplicationStatus,
+    RequestOptions,
+    RetrieveOptions,
+    RetrievedFile,
+    RetrievedFileInfo,
+    TokenState,
+    UploadOptions,
+    VerifyMode,
+    VerifyOptions,
+} from './clients/storage.ts';
+export { verifyContent } from './cid.ts';
+export type { VerifyResult } from './cid.ts';
+export type { KeyStore, StoredKey } from './clients/keystore.ts';
+export type {
+    UploadContext,
+    UploadQuery,
+    UploadRecord,
+    UploadRegistry,
+    UploadSource,
+} from './clients/registry.ts';
+export * from './errors.ts';
 export default storagePlugin;
@@ -0,0 +1,164 @@
+import { ContentType } from "@elizaos/core";
+
+/** Bytes needed by `detectMimeType` to recognize every known signature */
+export const MIME_SNIFF_LENGTH = 4100;
+
+export const DEFAULT_MIME_TYPE = "application/octet-stream";
+
+/**
+ * Known file signatures. `offset` is where `bytes` start, and the bytes at
+ * the `mask` indexes match anything.
+ */
+const SIGNATURES: Array<{ type: string; bytes: number[]; offset?: number; mask?: number[] }> = [
+    { type: "image/png", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+    { type: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+    { type: "image/gif", bytes: [0x47, 0x49, 0x46, 0x38] },
+    { type: "image/webp", bytes: [0x52, 0x49, 0x46, 0x46, 0, 0, 0, 0, 0x57, 0x45, 0x42, 0x50], mask: [4, 5, 6, 7] },
+    { type: "image/bmp", bytes: [0x42, 0x4d, 0, 0, 0, 0, 0x00, 0x00, 0x00, 0x00], mask: [2, 3, 4, 5] },
+    { type: "image/tiff", bytes: [0x49, 0x49, 0x2a, 0x00] },
+    { type: "image/tiff", bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+    { type: "image/x-icon", bytes: [0x00, 0x00, 0x01, 0x00] },
+    { type: "application/pdf", bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+    { type: "application/zip", bytes: [0x50, 0x4b, 0x03, 0x04] },
+    { type: "application/gzip", bytes: [0x1f, 0x8b] },
+    { type: "application/x-7z-compressed", bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+    { type: "application/vnd.rar", bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07] },
+    { type: "application/x-bzip2", bytes: [0x42, 0x5a, 0x68, 0, 0x31, 0x41, 0x59, 0x26, 0x53, 0x59], mask: [3] },
+    { type: "application/x-tar", bytes: [0x75, 0x73, 0x74, 0x61, 0x72], offset: 257 },
+    { type: "application/wasm", bytes: [0x00, 0x61, 0x73, 0x6d] },
+    { type: "audio/mpeg", bytes: [0x49, 0x44, 0x33] },
+    { type: "audio/wav", bytes: [0x52, 0x49, 0x46, 0x46, 0, 0, 0, 0, 0x57, 0x41, 0x56, 0x45], mask: [4, 5, 6, 7] },
+    { type: "audio/ogg", bytes: [0x4f, 0x67, 0x67, 0x53] },
+    { type: "audio/flac", bytes: [0x66, 0x4c, 0x61, 0x43] },
+    { type: "video/mp4", bytes: [0x66, 0x74, 0x79, 0x70], offset: 4 },
+    { type: "video/webm", bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+];
+
+/** Types of common file extensions, used when the content has no signature */
+const EXTENSION_TYPES: Record<string, string> = {
+    txt: "text/plain",
+    md: "text/markdown",
+    csv: "text/csv",
+    html: "text/html",
+    htm: "text/html",
+    css: "text/css",
+    js: "text/javascript",
+    mjs: "text/javascript",
+    ts: "text/plain",
+    xml: "application/xml",
+    json: "application/json",
+    yaml: "application/yaml",
+    yml: "application/yaml",
+    svg: "image/svg+xml",
+    png: "image/png",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    gif: "image/gif",
+    webp: "image/webp",
+    pdf: "application/pdf",
+    zip: "application/zip",
+    docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    mp3: "audio/mpeg",
+    wav: "audio/wav",
+    mp4: "video/mp4",
+    webm: "video/webm",
+};
+
+/**
+ * Whether content of this type can be shown as text
+ */
+export function isTextMimeType(type: string): boolean {
+    const base = type.split(";")[0].trim().toLowerCase();
+    return base.startsWith("text/")
+        || /^application\/(json|xml|yaml|javascript|x-ndjson)$/.test(base)
+        || base.endsWith("+json")
+        || base.endsWith("+xml");
+}
+
+/**
+ * Whether the start of some content looks like UTF-8 text
+ */
+function looksLikeText(head: Buffer): boolean {
+    if (head.length === 0) {
+        return false;
+    }
+    // A multi-byte character may be cut at the end of the sample
+    const text = head.toString("utf-8").replace(/\uFFFD{1,3}$/, "");
+    return !text.includes("\uFFFD") && !/[\x00-\x08\x0E-\x1F\x7F]/.test(text);
+}
+
+function matchSignature(head: Buffer): string | null {
+    for (const signature of SIGNATURES) {
+        const offset = signature.offset ?? 0;
+        if (head.length < offset + signature.bytes.length) {
+            continue;
+        }
+        const matches = signature.bytes.every((byte, index) =>
+            signature.mask?.includes(index) || head[offset + index] === byte
+        );
+        if (matches) {
+            return signature.type;
+        }
+    }
+    return null;
+}
+
+/**
+ * Detect the MIME type of some content. Magic bytes win over the declared
+ * type, which wins over the file extension; content without any of these is
+ * text if it decodes as UTF-8.
+ * @param head - start of the content, at least MIME_SNIFF_LENGTH bytes when available
+ * @param filename - file name, for its extension
+ * @param declared - type declared by the source, e.g. an attachment's contentType
+ * @returns MIME type, DEFAULT_MIME_TYPE if unknown
+ */
+export function detectMimeType(head: Buffer, filename?: string, declared?: string): string {
+    const extension = filename?.includes(".") ? filename.split(".").pop()!.toLowerCase() : undefined;
+    const extensionType = extension ? EXTENSION_TYPES[extension] : undefined;
+
+    const sniffed = matchSignature(head);
+    if (sniffed) {
+        // Office documents are zip archives
+        return sniffed === "application/zip" && extensionType?.startsWith("application/vnd.openxmlformats")
+            ? extensionType
+            : sniffed;
+    }
+
+    const declaredType = declared?.split(";")[0].trim().toLowerCase();
+    if (declaredType && declaredType !== DEFAULT_MIME_TYPE && /^[\w.+-]+\/[\w.+-]+$/.test(declaredType)) {
+        return declaredType;
+    }
+    if (extensionType) {
+        return extensionType;
+    }
+    return looksLikeText(head) ? "text/plain" : DEFAULT_MIME_TYPE;
+}
+
+/**
+ * Usual file extension of a MIME type
+ * @returns extension with its leading dot, or "" if unknown
+ */
+export function getExtensionForMimeType(type: string): string {
+    const base = type.split(";")[0].trim().toLowerCase();
+    const extension = Object.keys(EXTENSION_TYPES).find((candidate) => EXTENSION_TYPES[candidate] === base);
+    return extension ? `.${extension}` : "";
+}
+
+/**
+ * Kind of media attachment for a MIME type
+ */
+export function getMediaContentType(type: string): ContentType {
+    const base = type.split(";")[0].trim().toLowerCase();
+    if (base.startsWith("image/")) {
+        return ContentType.IMAGE;
+    }
+    if (base.startsWith("video/")) {
+        return ContentType.VIDEO;
+    }
+    if (base.startsWith("audio/")) {
+        return ContentType.AUDIO;
+    }
+    return ContentType.DOCUMENT;
+}
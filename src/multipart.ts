@@ -0,0 +1,77 @@
+import { randomBytes } from "crypto";
+import { Readable } from "stream";
+
+/**
+ * File part of a multipart/form-data body
+ */
+export type MultipartFile = {
+    /** Form field name */
+    field: string;
+    filename: string;
+    content: Buffer | Readable;
+    contentType?: string;
+    /** Byte length of a stream content, if known; enables Content-Length */
+    size?: number;
+};
+
+/**
+ * Request body and headers of a multipart upload
+ */
+export type MultipartBody = {
+    body: Buffer | ReadableStream<Uint8Array>;
+    headers: Record<string, string>;
+};
+
+const escapeQuotes = (value: string) => value.replace(/["\r\n]/g, (c) => encodeURIComponent(c));
+
+/**
+ * Build a multipart/form-data body. Stream contents are piped through
+ * without being buffered in memory.
+ * @param fields - plain text fields, sent before the file
+ * @param file - file part
+ */
+export function createMultipartBody(
+    fields: Record<string, string>,
+    file: MultipartFile
+): MultipartBody {
+    const boundary = `----mefs${randomBytes(12).toString("hex")}`;
+
+    let head = "";
+    for (const [name, value] of Object.entries(fields)) {
+        head += `--${boundary}\r\n`;
+        head += `Content-Disposition: form-data; name="${escapeQuotes(name)}"\r\n\r\n`;
+        head += `${value}\r\n`;
+    }
+    head += `--${boundary}\r\n`;
+    head += `Content-Disposition: form-data; name="${escapeQuotes(file.field)}"; filename="${escapeQuotes(file.filename)}"\r\n`;
+    head += `Content-Type: ${file.contentType || "application/octet-stream"}\r\n\r\n`;
+
+    const preamble = Buffer.from(head, "utf-8");
+    const epilogue = Buffer.from(`\r\n--${boundary}--\r\n`, "utf-8");
+    const headers: Record<string, string> = {
+        "Content-Type": `multipart/form-data; boundary=${boundary}`,
+    };
+
+    if (Buffer.isBuffer(file.content)) {
+        const body = Buffer.concat([preamble, file.content, epilogue]);
+        headers["Content-Length"] = body.length.toString();
+        return { body, headers };
+    }
+
+    if (file.size !== undefined) {
+        headers["Content-Length"] = (preamble.length + file.size + epilogue.length).toString();
+    }
+
+    const content = file.content;
+    async function* parts() {
+        yield preamble;
+        for await (const chunk of content) {
+            yield typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+        }
+        yield epilogue;
+    }
+    return {
+        body: Readable.toWeb(Readable.from(parts())) as ReadableStream<Uint8Array>,
+        headers,
+    };
+}
@@ -8,7 +8,7 @@ import {
   WorldPayload,
   logger
 } from "@elizaos/core";
-import { uploadAction, retrieveAction } from "./actions";
+import { uploadAction, retrieveAction, keysAction, listAction, deleteAction, infoAction, accountAction } from "./actions";
 import { storageClientEnvSchema } from "./schemes.ts";
 import {
   StorageService,
@@ -23,6 +23,25 @@ export const storagePlugin: Plugin = {
     MEFS_PRIVATE_KEY: process.env.MEFS_PRIVATE_KEY,
     MEFS_CHAIN_ID: process.env.MEFS_CHAIN_ID || 985,
     MEFS_ORIGIN: process.env.MEFS_ORIGIN || "https://memo.io",
+    MEFS_RETRY_MAX_ATTEMPTS: process.env.MEFS_RETRY_MAX_ATTEMPTS,
+    MEFS_RETRY_BASE_DELAY_MS: process.env.MEFS_RETRY_BASE_DELAY_MS,
+    MEFS_RETRY_JITTER: process.env.MEFS_RETRY_JITTER,
+    MEFS_RETRY_STATUS_CODES: process.env.MEFS_RETRY_STATUS_CODES,
+    MEFS_CONNECT_TIMEOUT_MS: process.env.MEFS_CONNECT_TIMEOUT_MS,
+    MEFS_REQUEST_TIMEOUT_MS: process.env.MEFS_REQUEST_TIMEOUT_MS,
+    MEFS_UPLOAD_PART_SIZE: process.env.MEFS_UPLOAD_PART_SIZE,
+    MEFS_CHUNKED_UPLOAD_THRESHOLD: process.env.MEFS_CHUNKED_UPLOAD_THRESHOLD,
+    MEFS_CLIENT_ENCRYPTION: process.env.MEFS_CLIENT_ENCRYPTION,
+    MEFS_ATTACHMENT_MAX_BYTES: process.env.MEFS_ATTACHMENT_MAX_BYTES,
+    MEFS_ATTACHMENT_TIMEOUT_MS: process.env.MEFS_ATTACHMENT_TIMEOUT_MS,
+    MEFS_MEDIA_DIR: process.env.MEFS_MEDIA_DIR,
+    MEFS_MEDIA_MAX_AGE_MS: process.env.MEFS_MEDIA_MAX_AGE_MS,
+    MEFS_INLINE_TEXT_MAX_BYTES: process.env.MEFS_INLINE_TEXT_MAX_BYTES,
+    MEFS_VERIFY_CONTENT: process.env.MEFS_VERIFY_CONTENT,
+    MEFS_CID_VERSION: process.env.MEFS_CID_VERSION,
+    MEFS_CID_CHUNK_SIZE: process.env.MEFS_CID_CHUNK_SIZE,
+    MEFS_CID_RAW_LEAVES: process.env.MEFS_CID_RAW_LEAVES,
+    MEFS_ADMIN_ENTITY_IDS: process.env.MEFS_ADMIN_ENTITY_IDS,
   },
   async init(config: Record<string, string>) {
     logger.info('Initializing plugin-storage');
@@ -72,11 +91,13 @@ export const storagePlugin: Plugin = {
       name: 'api-status',
       path: '/api/status',
       type: 'GET',
-      handler: async (_req: any, res: any) => {
+      handler: async (_req: any, res: any, runtime: IAgentRuntime) => {
+        const storageService = runtime?.getService(StorageService.serviceType as any) as StorageService | null;
         res.json({
           status: 'ok',
           plugin: 'quick-starter',
           timestamp: new Date().toISOString(),
+          storage: storageService ? storageService.getTokenState() : null,
         });
       },
     },
@@ -108,7 +129,7 @@ export const storagePlugin: Plugin = {
     ],
   },
   services: [StorageService],
-  actions: [uploadAction, retrieveAction],
+  actions: [uploadAction, retrieveAction, keysAction, listAction, deleteAction, infoAction, accountAction],
   // providers: [quickProvider],
   // dependencies: ['@elizaos/plugin-knowledge'], <--- plugin dependencies go here (if requires another plugin)
 };
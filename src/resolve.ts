@@ -0,0 +1,226 @@
+import { IAgentRuntime, Memory, ModelType, logger, parseJSONObjectFromText } from "@elizaos/core";
+import type { StorageService } from "./clients/storage";
+import type { UploadRecord } from "./clients/registry";
+import { formatDate, formatSize, getListFiltersFromMessage } from "./utils";
+
+/** Largest number of files offered when a request matches several */
+const MAX_CHOICES = 10;
+/** Most recent uploads shown to the model when nothing matches by name or date */
+const MAX_MODEL_CANDIDATES = 50;
+/** How long the user can pick from offered files, in milliseconds */
+const CHOICE_TTL_MS = 10 * 60 * 1000;
+
+/** Words of a request that do not describe the file */
+const STOP_WORDS = new Set([
+    "a", "an", "the", "my", "me", "our", "your", "this", "that", "these", "those", "it", "its",
+    "i", "we", "you", "to", "of", "in", "on", "at", "for", "from", "with", "and", "or", "by",
+    "get", "back", "fetch", "retrieve", "download", "load", "read", "open", "show", "give", "send",
+    "file", "files", "document", "documents", "one", "ones", "please", "can", "could", "would",
+    "uploaded", "upload", "saved", "save", "stored", "store", "put", "sent", "shared", "did", "had",
+    "today", "yesterday", "last", "past", "week", "weeks", "day", "days", "month", "months", "hour", "hours",
+    "ago", "since", "before", "after", "until", "earlier", "recent", "latest", "newest", "all", "both",
+    "named", "called", "matching", "containing", "password", "passphrase", "mefs", "storage",
+]);
+
+const ORDINALS = ["first", "second", "third", "fourth", "fifth", "sixth", "seventh", "eighth", "ninth", "tenth"];
+
+/** Words a reply picking from offered files may have besides numbers and ordinals */
+const CHOICE_WORDS = new Set([
+    "the", "one", "ones", "file", "files", "number", "no", "nr", "and", "or", "please", "pls", "thanks",
+    "all", "both", "every", "each", "of", "them", "last", "latest", "newest", "just", "only", "that", "this",
+]);
+
+/**
+ * Outcome of resolving a request to uploaded files
+ * - resolved: the files the user meant
+ * - ambiguous: several files match, and the user has to choose
+ * - none: no recorded upload matches
+ */
+export type FileResolution =
+    | { status: "resolved"; files: UploadRecord[] }
+    | { status: "ambiguous"; files: UploadRecord[] }
+    | { status: "none" };
+
+/**
+ * Files offered to a user, kept until they choose
+ */
+type PendingChoice = {
+    files: UploadRecord[];
+    createdAt: number;
+};
+
+const getChoiceCacheKey = (message: Memory): string => `mefs:retrieve:choice:${message.roomId}:${message.entityId}`;
+
+/**
+ * Whether the user asks for every matching file
+ */
+const wantsAll = (text: string): boolean => /\b(?:all|both|every|each)\b/i.test(text);
+
+/**
+ * Whether the user asks for the most recent matching file
+ */
+const wantsLatest = (text: string): boolean =>
+    /\b(?:latest|newest|most recent(?:ly)?|last (?:one|file|upload))\b/i.test(text);
+
+/**
+ * Whether a message only picks from offered files, e.g. "2", "the second
+ * one" or "1 and 3", rather than asking for something new
+ */
+const isChoiceReply = (text: string): boolean => {
+    const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    return words.length > 0
+        && words.length <= 8
+        && words.every((word) => /^\d{1,2}$/.test(word) || ORDINALS.includes(word) || CHOICE_WORDS.has(word))
+        && words.some((word) => !CHOICE_WORDS.has(word) || wantsAll(word) || word === "last");
+};
+
+/**
+ * Find which of the offered files the user picked, e.g. "2", "the second
+ * one", "1 and 3" or "both"
+ * @returns the picked files, or null if the message picks none
+ */
+const pickFromChoice = (text: string, files: UploadRecord[]): UploadRecord[] | null => {
+    if (wantsAll(text)) {
+        return files;
+    }
+    const picked = new Set<number>();
+    for (const match of text.matchAll(/\b(\d{1,2})\b/g)) {
+        picked.add(parseInt(match[1], 10) - 1);
+    }
+    ORDINALS.forEach((ordinal, index) => {
+        if (new RegExp(`\\b${ordinal}\\b`, "i").test(text)) {
+            picked.add(index);
+        }
+    });
+    if (/\blast (?:one|file)\b/i.test(text)) {
+        picked.add(files.length - 1);
+    }
+    const chosen = [...picked].filter((index) => index >= 0 && index < files.length).map((index) => files[index]);
+    return chosen.length > 0 ? chosen : null;
+};
+
+/**
+ * Words of a request that may be part of a file name
+ */
+const getKeywords = (text: string): string[] =>
+    (text.toLowerCase().match(/[\p{L}\p{N}_-]+/gu) || [])
+        .filter((word) => word.length >= 2 && !STOP_WORDS.has(word) && !/^\d+$/.test(word));
+
+/**
+ * Ask the model which of the recent uploads the user means
+ * @returns the files the model picked, empty if none or if the model failed
+ */
+const askModel = async (runtime: IAgentRuntime, request: string, files: UploadRecord[]): Promise<UploadRecord[]> => {
+    const list = files.map((file, index) =>
+        `${index + 1}. ${file.filename} (${file.contentType}, ${formatSize(file.size)}, uploaded ${formatDate(file.uploadedAt)})`
+    ).join("\n");
+    const prompt = `A user asked to retrieve one or more files they uploaded earlier. The current time is ${formatDate(Date.now())}.
+
+User request: ${JSON.stringify(request)}
+
+Uploaded files:
+${list}
+
+Which files does the user mean? Respond with a JSON object whose "files" field lists the numbers of the matching files, e.g. {"files": [2]}. Use an empty list if no file clearly matches.`;
+
+    try {
+        const response = await runtime.useModel(ModelType.TEXT_SMALL, { prompt });
+        const parsed = parseJSONObjectFromText(String(response));
+        const numbers: unknown[] = Array.isArray(parsed?.files) ? parsed.files : [];
+        return [...new Set(numbers.map(Number))]
+            .filter((number) => Number.isInteger(number) && number >= 1 && number <= files.length)
+            .map((number) => files[number - 1]);
+    } catch (error: any) {
+        logger.warn(`Failed to resolve files with the model: ${error instanceof Error ? error.message : String(error)}`);
+        return [];
+    }
+};
+
+/**
+ * Find the uploaded files a message refers to by name, type or date, e.g.
+ * "the report I uploaded yesterday". When several files match, they are
+ * offered to the user, who can pick one in the next message. Requests that
+ * cannot be matched by name or date are interpreted by the model.
+ * @param runtime - agent runtime
+ * @param storageService - initialized storage service
+ * @param message - message asking for the files
+ * @returns the files, or the candidates to choose from
+ */
+export async function resolveFilesFromMessage(
+    runtime: IAgentRuntime,
+    storageService: StorageService,
+    message: Memory
+): Promise<FileResolution> {
+    const text = message?.content?.text || "";
+
+    // A reply to an earlier question picks from the files offered then;
+    // any other request drops the question
+    const cacheKey = getChoiceCacheKey(message);
+    const pending = await runtime.getCache<PendingChoice>(cacheKey);
+    if (pending) {
+        await runtime.deleteCache(cacheKey);
+        const picked = Date.now() - pending.createdAt < CHOICE_TTL_MS && isChoiceReply(text)
+            ? pickFromChoice(text, pending.files)
+            : null;
+        if (picked) {
+            return { status: "resolved", files: picked };
+        }
+    }
+
+    // The user's own uploads, and the ones of everyone in the room
+    const [own, room] = await Promise.all([
+        storageService.uploads.query({ entityId: message.entityId }),
+        storageService.uploads.query({ roomId: message.roomId }),
+    ]);
+    const uploads = [...new Map([...own, ...room].map((file) => [file.id, file])).values()]
+        .sort((a, b) => b.uploadedAt - a.uploadedAt);
+    if (uploads.length === 0) {
+        return { status: "none" };
+    }
+
+    const filters = getListFiltersFromMessage(message);
+    const filtered = uploads.filter((file) =>
+        (!filters.name || file.filename.toLowerCase().includes(filters.name.toLowerCase()))
+        && (!filters.contentType || (filters.contentType.endsWith("/")
+            ? file.contentType.startsWith(filters.contentType)
+            : file.contentType === filters.contentType))
+        && (filters.since === undefined || file.uploadedAt >= filters.since)
+        && (filters.until === undefined || file.uploadedAt <= filters.until));
+
+    // Files whose name contains the most words of the request
+    const keywords = getKeywords(text);
+    let bestScore = 0;
+    let candidates: UploadRecord[] = [];
+    for (const file of filtered) {
+        const name = file.filename.toLowerCase();
+        const score = keywords.filter((keyword) => name.includes(keyword)).length;
+        if (score > bestScore) {
+            bestScore = score;
+            candidates = [file];
+        } else if (score === bestScore && score > 0) {
+            candidates.push(file);
+        }
+    }
+    const narrowed = filters.name !== undefined || filters.contentType !== undefined
+        || filters.since !== undefined || filters.until !== undefined;
+    if (candidates.length === 0 && narrowed) {
+        candidates = filtered;
+    }
+    if (candidates.length === 0 && !narrowed) {
+        candidates = await askModel(runtime, text, uploads.slice(0, MAX_MODEL_CANDIDATES));
+    }
+
+    if (candidates.length === 0) {
+        return { status: "none" };
+    }
+    if (candidates.length === 1 || wantsAll(text)) {
+        return { status: "resolved", files: candidates };
+    }
+    if (wantsLatest(text)) {
+        return { status: "resolved", files: [candidates[0]] };
+    }
+
+    const choices = candidates.slice(0, MAX_CHOICES);
+    await runtime.setCache<PendingChoice>(cacheKey, { files: choices, createdAt: Date.now() });
+    return { status: "ambiguous", files: choices };
+}
@@ -0,0 +1,97 @@
+/**
+ * How failed MEFS requests are retried
+ */
+export type RetryPolicy = {
+    /** Total attempts, including the first one */
+    maxAttempts: number;
+    /** Delay before the first retry; doubles with every further retry */
+    baseDelayMs: number;
+    /** Random spread applied to each delay, as a fraction of it (0-1) */
+    jitter: number;
+    /** HTTP status codes that are worth retrying */
+    retryableStatusCodes: number[];
+};
+
+/** Upper bound for a single backoff or Retry-After delay */
+export const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+/** Status codes with which the server declares it did not process the request */
+const REJECTED_STATUS_CODES = [429, 503];
+
+/** Connection errors raised before the request reached the server */
+const NOT_SENT_ERROR_CODES = ["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN", "UND_ERR_CONNECT_TIMEOUT"];
+
+/**
+ * Delay before the given retry, with exponential backoff and jitter
+ * @param policy - retry policy
+ * @param retry - 1 for the first retry, 2 for the second, ...
+ */
+export function getBackoffDelay(policy: RetryPolicy, retry: number): number {
+    const delay = policy.baseDelayMs * 2 ** (retry - 1);
+    const spread = delay * policy.jitter * (Math.random() * 2 - 1);
+    return Math.min(MAX_RETRY_DELAY_MS, Math.max(0, Math.round(delay + spread)));
+}
+
+/**
+ * Parse a Retry-After header, given either in seconds or as an HTTP date
+ * @returns delay in milliseconds, or null if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null): number | null {
+    if (!value) {
+        return null;
+    }
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+        return Math.min(MAX_RETRY_DELAY_MS, Math.max(0, seconds * 1000));
+    }
+    const date = Date.parse(value);
+    if (Number.isNaN(date)) {
+        return null;
+    }
+    return Math.min(MAX_RETRY_DELAY_MS, Math.max(0, date - Date.now()));
+}
+
+/**
+ * Whether a response status may be retried. Non-idempotent requests are
+ * only retried when the server explicitly refused to process them.
+ */
+export function isRetryableStatus(policy: RetryPolicy, status: number, idempotent: boolean): boolean {
+    if (!policy.retryableStatusCodes.includes(status)) {
+        return false;
+    }
+    return idempotent || REJECTED_STATUS_CODES.includes(status);
+}
+
+/**
+ * Whether a failed fetch may be retried. Non-idempotent requests are only
+ * retried when the connection could not be established at all.
+ */
+export function isRetryableFetchError(error: unknown, idempotent: boolean): boolean {
+    if (idempotent) {
+        return true;
+    }
+    const cause = (error as any)?.cause;
+    const code = cause?.code ?? (error as any)?.code;
+    return typeof code === "string" && NOT_SENT_ERROR_CODES.includes(code);
+}
+
+/**
+ * Wait for the given time, or reject with the signal's reason once it aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
@@ -22,6 +22,116 @@ export const storageClientEnvSchema = z.object({
         .url()
         .default("https://memo.io")
         .describe("Origin URL for challenge request (default: https://memo.io)"),
+    MEFS_RETRY_MAX_ATTEMPTS: z.coerce
+        .number()
+        .int()
+        .min(1)
+        .default(3)
+        .describe("Total attempts for a MEFS request, including the first one (default: 3)"),
+    MEFS_RETRY_BASE_DELAY_MS: z.coerce
+        .number()
+        .int()
+        .min(0)
+        .default(500)
+        .describe("Delay before the first retry in milliseconds, doubled for every further retry (default: 500)"),
+    MEFS_RETRY_JITTER: z.coerce
+        .number()
+        .min(0)
+        .max(1)
+        .default(0.2)
+        .describe("Random spread applied to retry delays, as a fraction of the delay (default: 0.2)"),
+    MEFS_RETRY_STATUS_CODES: z
+        .string()
+        .regex(/^\s*\d{3}(\s*,\s*\d{3})*\s*$/)
+        .default("408,429,500,502,503,504")
+        .describe("Comma-separated HTTP status codes that are retried (default: 408,429,500,502,503,504)"),
+    MEFS_CONNECT_TIMEOUT_MS: z.coerce
+        .number()
+        .int()
+        .positive()
+        .default(30000)
+        .describe("Time to wait for MEFS to start answering a request, in milliseconds (default: 30000)"),
+    MEFS_REQUEST_TIMEOUT_MS: z.coerce
+        .number()
+        .int()
+        .positive()
+        .default(600000)
+        .describe("Total time allowed for a MEFS operation including retries, in milliseconds (default: 600000)"),
+    MEFS_UPLOAD_PART_SIZE: z.coerce
+        .number()
+        .int()
+        .min(256 * 1024)
+        .default(8 * 1024 * 1024)
+        .describe("Part size of chunked uploads in bytes (default: 8388608)"),
+    MEFS_CHUNKED_UPLOAD_THRESHOLD: z.coerce
+        .number()
+        .int()
+        .min(0)
+        .default(64 * 1024 * 1024)
+        .describe("Files of at least this many bytes are uploaded in resumable chunks, if MEFS supports them (default: 67108864)"),
+    MEFS_CLIENT_ENCRYPTION: z
+        .preprocess(
+            (value) => typeof value === "string" ? value.trim().toLowerCase() === "true" : value,
+            z.boolean()
+        )
+        .default(false)
+        .describe("Encrypt private files with AES-256-GCM before they leave the agent (default: false)"),
+    MEFS_ATTACHMENT_MAX_BYTES: z.coerce
+        .number()
+        .int()
+        .positive()
+        .default(100 * 1024 * 1024)
+        .describe("Largest remote or data URI attachment that is uploaded, in bytes (default: 104857600)"),
+    MEFS_ATTACHMENT_TIMEOUT_MS: z.coerce
+        .number()
+        .int()
+        .positive()
+        .default(120000)
+        .describe("Time allowed to download a remote attachment, in milliseconds (default: 120000)"),
+    MEFS_MEDIA_DIR: z
+        .string()
+        .optional()
+        .describe("Directory retrieved files are saved to (default: the agent's uploads directory)"),
+    MEFS_MEDIA_MAX_AGE_MS: z.coerce
+        .number()
+        .int()
+        .min(0)
+        .default(60 * 60 * 1000)
+        .describe("How long retrieved files are kept in the media directory before they are deleted, in milliseconds; 0 keeps them (default: 3600000)"),
+    MEFS_INLINE_TEXT_MAX_BYTES: z.coerce
+        .number()
+        .int()
+        .min(0)
+        .default(16 * 1024)
+        .describe("Largest text file shown in the chat when retrieved; larger ones are sent as attachments (default: 16384)"),
+    MEFS_VERIFY_CONTENT: z
+        .enum(["strict", "warn", "off"])
+        .default("warn")
+        .describe("Check retrieved content against its CID: strict rejects content that does not match or cannot be verified, warn only logs it (default: warn)"),
+    MEFS_CID_VERSION: z.coerce
+        .number()
+        .int()
+        .min(0)
+        .max(1)
+        .default(1)
+        .describe("CID version MEFS assigns to uploads, used to compute CIDs locally (default: 1)"),
+    MEFS_CID_CHUNK_SIZE: z.coerce
+        .number()
+        .int()
+        .positive()
+        .default(256 * 1024)
+        .describe("Chunk size MEFS splits uploads into, used to compute CIDs locally (default: 262144)"),
+    MEFS_CID_RAW_LEAVES: z
+        .preprocess(
+            (value) => typeof value === "string" ? value.trim().toLowerCase() === "true" : value,
+            z.boolean()
+        )
+        .default(true)
+        .describe("Whether MEFS stores CIDv1 chunks as raw blocks, used to compute CIDs locally (default: true)"),
+    MEFS_ADMIN_ENTITY_IDS: z
+        .string()
+        .default("")
+        .describe("Comma-separated entity IDs allowed to export and import keys and to see the account, besides the owners and admins of the world (default: none)"),
 });
 
 // type StorageClientConfig = z.infer<typeof storageClientEnvSchema>;
@@ -32,6 +142,25 @@ export type MefsConfig = {
     MEFS_PRIVATE_KEY: string;
     MEFS_CHAIN_ID: number;
     MEFS_ORIGIN: string;
+    MEFS_RETRY_MAX_ATTEMPTS: number;
+    MEFS_RETRY_BASE_DELAY_MS: number;
+    MEFS_RETRY_JITTER: number;
+    MEFS_RETRY_STATUS_CODES: number[];
+    MEFS_CONNECT_TIMEOUT_MS: number;
+    MEFS_REQUEST_TIMEOUT_MS: number;
+    MEFS_UPLOAD_PART_SIZE: number;
+    MEFS_CHUNKED_UPLOAD_THRESHOLD: number;
+    MEFS_CLIENT_ENCRYPTION: boolean;
+    MEFS_ATTACHMENT_MAX_BYTES: number;
+    MEFS_ATTACHMENT_TIMEOUT_MS: number;
+    MEFS_MEDIA_DIR?: string;
+    MEFS_MEDIA_MAX_AGE_MS: number;
+    MEFS_INLINE_TEXT_MAX_BYTES: number;
+    MEFS_VERIFY_CONTENT: "strict" | "warn" | "off";
+    MEFS_CID_VERSION: 0 | 1;
+    MEFS_CID_CHUNK_SIZE: number;
+    MEFS_CID_RAW_LEAVES: boolean;
+    MEFS_ADMIN_ENTITY_IDS: string[];
 }
 
 export async function validateStorageClientConfig(
@@ -44,6 +173,25 @@ export async function validateStorageClientConfig(
             MEFS_PRIVATE_KEY: runtime.getSetting("MEFS_PRIVATE_KEY"),
             MEFS_CHAIN_ID: chainIdStr ? parseInt(chainIdStr, 10) : 985,
             MEFS_ORIGIN: runtime.getSetting("MEFS_ORIGIN") || "https://memo.io",
+            MEFS_RETRY_MAX_ATTEMPTS: runtime.getSetting("MEFS_RETRY_MAX_ATTEMPTS") ?? undefined,
+            MEFS_RETRY_BASE_DELAY_MS: runtime.getSetting("MEFS_RETRY_BASE_DELAY_MS") ?? undefined,
+            MEFS_RETRY_JITTER: runtime.getSetting("MEFS_RETRY_JITTER") ?? undefined,
+            MEFS_RETRY_STATUS_CODES: runtime.getSetting("MEFS_RETRY_STATUS_CODES") ?? undefined,
+            MEFS_CONNECT_TIMEOUT_MS: runtime.getSetting("MEFS_CONNECT_TIMEOUT_MS") ?? undefined,
+            MEFS_REQUEST_TIMEOUT_MS: runtime.getSetting("MEFS_REQUEST_TIMEOUT_MS") ?? undefined,
+            MEFS_UPLOAD_PART_SIZE: runtime.getSetting("MEFS_UPLOAD_PART_SIZE") ?? undefined,
+            MEFS_CHUNKED_UPLOAD_THRESHOLD: runtime.getSetting("MEFS_CHUNKED_UPLOAD_THRESHOLD") || undefined,
+            MEFS_CLIENT_ENCRYPTION: runtime.getSetting("MEFS_CLIENT_ENCRYPTION") ?? undefined,
+            MEFS_ATTACHMENT_MAX_BYTES: runtime.getSetting("MEFS_ATTACHMENT_MAX_BYTES") ?? undefined,
+            MEFS_ATTACHMENT_TIMEOUT_MS: runtime.getSetting("MEFS_ATTACHMENT_TIMEOUT_MS") ?? undefined,
+            MEFS_MEDIA_DIR: runtime.getSetting("MEFS_MEDIA_DIR") || undefined,
+            MEFS_MEDIA_MAX_AGE_MS: runtime.getSetting("MEFS_MEDIA_MAX_AGE_MS") ?? undefined,
+            MEFS_INLINE_TEXT_MAX_BYTES: runtime.getSetting("MEFS_INLINE_TEXT_MAX_BYTES") ?? undefined,
+            MEFS_VERIFY_CONTENT: runtime.getSetting("MEFS_VERIFY_CONTENT") || undefined,
+            MEFS_CID_VERSION: runtime.getSetting("MEFS_CID_VERSION") ?? undefined,
+            MEFS_CID_CHUNK_SIZE: runtime.getSetting("MEFS_CID_CHUNK_SIZE") ?? undefined,
+            MEFS_CID_RAW_LEAVES: runtime.getSetting("MEFS_CID_RAW_LEAVES") ?? undefined,
+            MEFS_ADMIN_ENTITY_IDS: runtime.getSetting("MEFS_ADMIN_ENTITY_IDS") || undefined,
         };
         const c = storageClientEnvSchema.parse(config);
 
@@ -61,6 +209,30 @@ export async function validateStorageClientConfig(
             MEFS_PRIVATE_KEY: c.MEFS_PRIVATE_KEY,
             MEFS_CHAIN_ID: c.MEFS_CHAIN_ID,
             MEFS_ORIGIN: c.MEFS_ORIGIN,
+            MEFS_RETRY_MAX_ATTEMPTS: c.MEFS_RETRY_MAX_ATTEMPTS,
+            MEFS_RETRY_BASE_DELAY_MS: c.MEFS_RETRY_BASE_DELAY_MS,
+            MEFS_RETRY_JITTER: c.MEFS_RETRY_JITTER,
+            MEFS_RETRY_STATUS_CODES: c.MEFS_RETRY_STATUS_CODES
+                .split(",")
+                .map((code) => parseInt(code.trim(), 10)),
+            MEFS_CONNECT_TIMEOUT_MS: c.MEFS_CONNECT_TIMEOUT_MS,
+            MEFS_REQUEST_TIMEOUT_MS: c.MEFS_REQUEST_TIMEOUT_MS,
+            MEFS_UPLOAD_PART_SIZE: c.MEFS_UPLOAD_PART_SIZE,
+            MEFS_CHUNKED_UPLOAD_THRESHOLD: c.MEFS_CHUNKED_UPLOAD_THRESHOLD,
+            MEFS_CLIENT_ENCRYPTION: c.MEFS_CLIENT_ENCRYPTION,
+            MEFS_ATTACHMENT_MAX_BYTES: c.MEFS_ATTACHMENT_MAX_BYTES,
+            MEFS_ATTACHMENT_TIMEOUT_MS: c.MEFS_ATTACHMENT_TIMEOUT_MS,
+            MEFS_MEDIA_DIR: c.MEFS_MEDIA_DIR,
+            MEFS_MEDIA_MAX_AGE_MS: c.MEFS_MEDIA_MAX_AGE_MS,
+            MEFS_INLINE_TEXT_MAX_BYTES: c.MEFS_INLINE_TEXT_MAX_BYTES,
+            MEFS_VERIFY_CONTENT: c.MEFS_VERIFY_CONTENT,
+            MEFS_CID_VERSION: c.MEFS_CID_VERSION as 0 | 1,
+            MEFS_CID_CHUNK_SIZE: c.MEFS_CID_CHUNK_SIZE,
+            MEFS_CID_RAW_LEAVES: c.MEFS_CID_RAW_LEAVES,
+            MEFS_ADMIN_ENTITY_IDS: c.MEFS_ADMIN_ENTITY_IDS
+                .split(",")
+                .map((id) => id.trim())
+                .filter(Boolean),
         };
     } catch (error: any) {
         logger.error(error, "Storage client config validation failed");
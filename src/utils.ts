@@ -1,5 +1,19 @@
 import { Memory } from "@elizaos/core";
 import { CID } from 'multiformats/cid';
+import {
+    MefsAbortError,
+    MefsAttachmentError,
+    MefsAuthError,
+    MefsDecryptionError,
+    MefsError,
+    MefsIntegrityError,
+    MefsNetworkError,
+    MefsNotFoundError,
+    MefsQuotaError,
+    MefsTimeoutError,
+} from "./errors";
+import { KEY_BUNDLE_PREFIX } from "./clients/keystore";
+import type { UploadRecord } from "./clients/registry";
 
 /**
  * Extract CID (Content Identifier) array from message
@@ -34,3 +48,421 @@ export const getCIDsFromMessage = (message: Memory): string[] => {
     }
     return cids;
 };
+
+/**
+ * Read the `iat` and `exp` claims from a JWT without verifying it
+ * @param token - JWT string
+ * @returns claims in milliseconds since epoch, or null if the token is not a readable JWT
+ */
+export const decodeJwtTimes = (
+    token: string
+): { issuedAt?: number; expiresAt?: number } | null => {
+    const parts = token.split(".");
+    if (parts.length !== 3) {
+        return null;
+    }
+
+    try {
+        const payload = JSON.parse(Buffer.from(parts[1], "base64url").toString("utf-8"));
+        return {
+            issuedAt: typeof payload.iat === "number" ? payload.iat * 1000 : undefined,
+            expiresAt: typeof payload.exp === "number" ? payload.exp * 1000 : undefined,
+        };
+    } catch (error) {
+        // Not a JWT we can read
+        return null;
+    }
+};
+
+/**
+ * Turn a StorageService failure into a message for the user
+ * @param error - caught error
+ * @param operation - what was attempted, e.g. "upload file(s) to MEFS"
+ * @returns user-facing message
+ */
+export const describeStorageError = (error: unknown, operation: string): string => {
+    let text: string;
+    if (error instanceof MefsAuthError) {
+        text = "I couldn't authenticate with MEFS. Please check the configured MEFS_PRIVATE_KEY.";
+    } else if (error instanceof MefsNotFoundError) {
+        text = "The file could not be found on MEFS. Please check the CID.";
+    } else if (error instanceof MefsQuotaError) {
+        text = "There is not enough storage quota or balance left on the MEFS account.";
+    } else if (error instanceof MefsDecryptionError) {
+        text = "The file could not be decrypted. Please check the key.";
+    } else if (error instanceof MefsIntegrityError) {
+        text = "The content returned by MEFS does not match the requested CID, so it was rejected.";
+    } else if (error instanceof MefsAttachmentError) {
+        text = `I couldn't read the attachment: ${error.message}`;
+    } else if (error instanceof MefsTimeoutError) {
+        text = "MEFS took too long to respond. Please try again later.";
+    } else if (error instanceof MefsNetworkError) {
+        text = "I couldn't reach the MEFS network right now. Please try again later.";
+    } else if (error instanceof MefsAbortError) {
+        text = `The request to ${operation} was cancelled.`;
+    } else {
+        text = `Sorry, failed to ${operation}. Please try again later.`;
+    }
+
+    if (error instanceof MefsError && error.requestId) {
+        text += ` (request id: ${error.requestId})`;
+    }
+    return text;
+};
+
+/** Page size used for "page N" requests */
+export const DEFAULT_PAGE_SIZE = 4 * 1024;
+
+const SIZE_UNITS: Record<string, number> = {
+    b: 1,
+    byte: 1,
+    bytes: 1,
+    kb: 1024,
+    kib: 1024,
+    mb: 1024 * 1024,
+    mib: 1024 * 1024,
+};
+
+/**
+ * Extract a byte range from message, e.g. "the first 4 KB", "bytes 100-200"
+ * or "page 3" (pages of DEFAULT_PAGE_SIZE bytes)
+ * @param message - message object
+ * @returns range with an exclusive end, or null if the message asks for the whole file
+ */
+export const getByteRangeFromMessage = (
+    message: Memory
+): { start: number; end: number } | null => {
+    const text = message?.content?.text;
+    if (!text) {
+        return null;
+    }
+
+    const first = text.match(/\bfirst\s+(\d+(?:\.\d+)?)\s*(bytes?|b|kib|kb|mib|mb)\b/i);
+    if (first) {
+        const end = Math.floor(parseFloat(first[1]) * SIZE_UNITS[first[2].toLowerCase()]);
+        return end > 0 ? { start: 0, end } : null;
+    }
+
+    // Ranges written by users are inclusive, e.g. "bytes 0-99" is 100 bytes
+    const bytes = text.match(/\bbytes?\s+(\d+)\s*(?:-|to)\s*(\d+)\b/i);
+    if (bytes) {
+        const start = parseInt(bytes[1], 10);
+        const last = parseInt(bytes[2], 10);
+        return last >= start ? { start, end: last + 1 } : null;
+    }
+
+    const page = text.match(/\bpage\s+(\d+)\b/i);
+    if (page) {
+        const index = parseInt(page[1], 10);
+        return index > 0
+            ? { start: (index - 1) * DEFAULT_PAGE_SIZE, end: index * DEFAULT_PAGE_SIZE }
+            : null;
+    }
+    return null;
+};
+
+/** Words after "password" that are not the password, as in "password protected" */
+const PASSPHRASE_STOP_WORDS = new Set([
+    "protect", "protected", "protecting", "protection", "needed", "required", "is", "was", "will",
+    "should", "must", "for", "to", "of", "on", "in", "it", "this", "that", "and", "or", "the", "a", "an",
+    "with", "please",
+]);
+
+/**
+ * Extract a passphrase from message, e.g. `passphrase "correct horse"`,
+ * `password: hunter2` or `with password hunter2`. An unquoted passphrase
+ * loses trailing punctuation, and is not one of PASSPHRASE_STOP_WORDS
+ * unless "is" or ":" comes before it, so that "password protected" has none.
+ * @param message - message object
+ * @returns passphrase, or null if the message has none
+ */
+export const getPassphraseFromMessage = (message: Memory): string | null => {
+    const text = message?.content?.text;
+    if (!text) {
+        return null;
+    }
+    const matches = text.matchAll(/\b(?:passphrase|password)\b\s*(?:(?:is\s+|[:=]\s*)?(?:"([^"]+)"|'([^']+)'|`([^`]+)`)|(is\s+|[:=]\s*)?([^\s-]\S*))/gi);
+    for (const match of matches) {
+        const quoted = match[1] ?? match[2] ?? match[3];
+        if (quoted !== undefined) {
+            return quoted;
+        }
+        const passphrase = match[5].replace(/[.,;!?]+$/, "");
+        if (passphrase && (match[4] || !PASSPHRASE_STOP_WORDS.has(passphrase.toLowerCase()))) {
+            return passphrase;
+        }
+    }
+    return null;
+};
+
+/**
+ * Extract a key bundle exported by the key store from message
+ * @param message - message object
+ * @returns bundle, or null if the message has none
+ */
+export const getKeyBundleFromMessage = (message: Memory): string | null => {
+    const text = message?.content?.text;
+    if (!text) {
+        return null;
+    }
+    const match = text.match(new RegExp(`${KEY_BUNDLE_PREFIX}[A-Za-z0-9+/]+={0,2}`));
+    return match ? match[0] : null;
+};
+
+/**
+ * Options of an upload, as asked for by the user
+ */
+export type UploadPreferences = {
+    /** Whether the file is public */
+    public: boolean;
+    /** Passphrase chosen by the user to protect a private file */
+    passphrase?: string;
+    /** Name to store the file under */
+    filename?: string;
+};
+
+/** A negation up to three words before "public" */
+const NEGATED_PUBLIC = /\b(?:not|non|no|never|without|(?:do|does|did|is|are|should|could|would|must|ca|wo)n['’]?t)(?:[\s-]+[\w'’]+){0,3}?[\s-]+public(?:ly)?\b/i;
+
+/**
+ * Extract upload options from message, e.g. "upload this publicly", "save it
+ * with password X" or "store it as report.pdf". Options passed to the action
+ * take precedence over the text.
+ * @param message - message object
+ * @param options - options passed to the action: `public` or `visibility`,
+ *                  `passphrase` or `password`, and `filename`
+ * @returns upload options; files are private unless asked otherwise
+ */
+export const getUploadPreferencesFromMessage = (
+    message: Memory,
+    options: Record<string, unknown> = {}
+): UploadPreferences => {
+    const text = message?.content?.text || "";
+    const preferences: UploadPreferences = { public: false };
+
+    if (typeof options.public === "boolean") {
+        preferences.public = options.public;
+    } else if (options.visibility === "public" || options.visibility === "private") {
+        preferences.public = options.visibility === "public";
+    } else {
+        // "don't make it public" or "do not share it publicly" keep the
+        // file private
+        preferences.public = /\bpublic(?:ly)?\b/i.test(text)
+            && !NEGATED_PUBLIC.test(text)
+            && !/\bprivate(?:ly)?\b/i.test(text);
+    }
+
+    const passphrase = typeof options.passphrase === "string"
+        ? options.passphrase
+        : typeof options.password === "string" ? options.password : getPassphraseFromMessage(message);
+    if (passphrase) {
+        preferences.passphrase = passphrase;
+    }
+
+    let filename: string | undefined;
+    if (typeof options.filename === "string") {
+        filename = options.filename;
+    } else {
+        // A bare name needs an extension, so that "save it as private" is not a name
+        const match = text.match(/\b(?:as|named|called|file\s*name|name\s+it)\s*:?\s+(?:"([^"]+)"|'([^']+)'|`([^`]+)`|([\w-]+\.[A-Za-z0-9]+)\b)/i);
+        filename = match ? match[1] ?? match[2] ?? match[3] ?? match[4] : undefined;
+    }
+    filename = sanitizeFilename(filename);
+    if (filename) {
+        preferences.filename = filename;
+    }
+    return preferences;
+};
+
+/**
+ * Keep only the last path segment of a file name, without control characters
+ * @param name - file name from an untrusted source
+ * @returns safe file name, or undefined if nothing usable is left
+ */
+export const sanitizeFilename = (name: string | undefined): string | undefined => {
+    const cleaned = name?.replace(/[\x00-\x1F\x7F]/g, "").split(/[\\/]/).pop()?.trim();
+    return cleaned && cleaned !== "." && cleaned !== ".." ? cleaned : undefined;
+};
+
+/**
+ * Read the file name of a Content-Disposition header, preferring the
+ * RFC 5987 `filename*` form
+ * @param header - header value
+ * @returns safe file name, or undefined if the header has none
+ */
+export const getFilenameFromContentDisposition = (header: string | null | undefined): string | undefined => {
+    if (!header) {
+        return undefined;
+    }
+    const encoded = header.match(/filename\*\s*=\s*(?:UTF-8|utf-8)''([^;]+)/)?.[1];
+    const plain = header.match(/filename\s*=\s*(?:"([^"]+)"|([^;\s]+))/);
+    try {
+        return sanitizeFilename(encoded ? decodeURIComponent(encoded) : plain?.[1] ?? plain?.[2]);
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * Format a byte count for people, e.g. "1.5 MB"
+ */
+export const formatSize = (bytes: number): string => {
+    const units = ["bytes", "KB", "MB", "GB", "TB"];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return unit === 0 ? `${bytes} bytes` : `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+/**
+ * Format a time for people, in UTC to the minute
+ */
+export const formatDate = (time: number): string =>
+    new Date(time).toISOString().slice(0, 16).replace("T", " ") + " UTC";
+
+/**
+ * Show recorded uploads as a Markdown table
+ * @param files - uploads to show
+ * @param firstIndex - number of the first row
+ */
+export const formatFileTable = (files: UploadRecord[], firstIndex: number = 1): string => {
+    // Pipes would end a cell early
+    const cell = (value: string) => value.replace(/\|/g, "\\|");
+    const rows = files.map((file, idx) =>
+        `| ${firstIndex + idx} | ${cell(file.filename)} | ${file.cid} | ${formatSize(file.size)} | ${formatDate(file.uploadedAt)} |`
+    );
+    return ["| # | Name | CID | Size | Uploaded |", "|---|---|---|---|---|", ...rows].join("\n");
+};
+
+/** Number of files per page of a listing */
+export const LIST_PAGE_SIZE = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PERIOD_MS: Record<string, number> = {
+    hour: 60 * 60 * 1000,
+    day: DAY_MS,
+    week: 7 * DAY_MS,
+    month: 30 * DAY_MS,
+};
+
+/** MIME types of the kinds of files users ask for */
+const FILE_KIND_TYPES: Array<{ pattern: RegExp; contentType: string }> = [
+    { pattern: /\b(?:images?|photos?|pictures?|pics?)\b/i, contentType: "image/" },
+    { pattern: /\bvideos?\b/i, contentType: "video/" },
+    { pattern: /\b(?:audio|music|songs?|recordings?)\b/i, contentType: "audio/" },
+    { pattern: /\bpdfs?\b/i, contentType: "application/pdf" },
+    { pattern: /\btexts?\b/i, contentType: "text/" },
+];
+
+/**
+ * Filters of a file listing, as asked for by the user
+ */
+export type ListFilters = {
+    /** Files uploaded by the user, or by everyone in the room */
+    scope: "mine" | "room";
+    /** Part of the file name */
+    name?: string;
+    /** MIME type, or a type prefix such as "image/" */
+    contentType?: string;
+    /** Start of the date range, in milliseconds since epoch */
+    since?: number;
+    /** End of the date range, in milliseconds since epoch */
+    until?: number;
+    /** 1-based page number */
+    page: number;
+    pageSize: number;
+};
+
+/**
+ * Read a date given as a timestamp or an ISO 8601 string
+ */
+const parseDate = (value: unknown): number | undefined => {
+    if (typeof value === "number" && Number.isFinite(value)) {
+        return value;
+    }
+    if (typeof value === "string") {
+        const time = Date.parse(value);
+        return Number.isNaN(time) ? undefined : time;
+    }
+    return undefined;
+};
+
+/**
+ * Extract the filters of a file listing from message, e.g. "images from
+ * everyone in this room", "files named report from the last 7 days" or
+ * "page 2". Options passed to the action take precedence over the text.
+ * @param message - message object
+ * @param options - options passed to the action: `scope`, `name`, `type`,
+ *                  `since`, `until`, `page` and `pageSize`
+ * @param now - current time, in milliseconds since epoch
+ * @returns filters; the user's own files by default
+ */
+export const getListFiltersFromMessage = (
+    message: Memory,
+    options: Record<string, unknown> = {},
+    now: number = Date.now()
+): ListFilters => {
+    const text = message?.content?.text || "";
+    const filters: ListFilters = {
+        scope: "mine",
+        page: 1,
+        pageSize: LIST_PAGE_SIZE,
+    };
+
+    if (options.scope === "mine" || options.scope === "room") {
+        filters.scope = options.scope;
+    } else if (/\b(?:every(?:one|body)|any(?:one|body)|all users|this (?:room|channel|chat)|we|us|our)\b/i.test(text)) {
+        filters.scope = "room";
+    }
+
+    // The rest of the text is searched without the name, e.g. "named photo"
+    // is not a filter on images
+    let rest = text;
+    if (typeof options.name === "string") {
+        filters.name = options.name;
+    } else {
+        const match = text.match(/\b(?:named|called|matching|containing)\s+(?:"([^"]+)"|'([^']+)'|`([^`]+)`|([^\s,.?!]+))/i);
+        filters.name = match ? match[1] ?? match[2] ?? match[3] ?? match[4] : undefined;
+        rest = match ? text.replace(match[0], "") : text;
+    }
+
+    if (typeof options.type === "string") {
+        filters.contentType = options.type.toLowerCase();
+    } else {
+        filters.contentType = FILE_KIND_TYPES.find((kind) => kind.pattern.test(rest))?.contentType;
+    }
+
+    filters.since = parseDate(options.since);
+    filters.until = parseDate(options.until);
+    if (filters.since === undefined && filters.until === undefined) {
+        const startOfToday = new Date(now).setUTCHours(0, 0, 0, 0);
+        const last = text.match(/\b(?:last|past)\s+(?:(\d+)\s+)?(hour|day|week|month)s?\b/i);
+        const since = text.match(/\b(?:since|after|from)\s+(\d{4}-\d{2}-\d{2})\b/i);
+        const until = text.match(/\b(?:before|until)\s+(\d{4}-\d{2}-\d{2})\b/i);
+        if (/\btoday\b/i.test(text)) {
+            filters.since = startOfToday;
+        } else if (/\byesterday\b/i.test(text)) {
+            filters.since = startOfToday - DAY_MS;
+            filters.until = startOfToday - 1;
+        } else if (last) {
+            filters.since = now - parseInt(last[1] ?? "1", 10) * PERIOD_MS[last[2].toLowerCase()];
+        }
+        if (since) {
+            filters.since = parseDate(since[1]);
+        }
+        if (until) {
+            filters.until = parseDate(until[1]);
+        }
+    }
+
+    const page = typeof options.page === "number" ? options.page : parseInt(text.match(/\bpage\s+(\d+)\b/i)?.[1] ?? "1", 10);
+    filters.page = Number.isInteger(page) && page > 0 ? page : 1;
+    if (typeof options.pageSize === "number" && Number.isInteger(options.pageSize) && options.pageSize > 0) {
+        filters.pageSize = options.pageSize;
+    }
+    return filters;
+};